@@ -1,22 +1,32 @@
 import React, { useState } from 'react';
-import { Routes, Route } from 'react-router-dom';
+import { Routes, Route, Navigate } from 'react-router-dom';
 import type { Course, CourseRecommendation } from './types';
-import { useCourses } from './hooks/useCourses';
+import { useCatalog } from './contexts/CatalogContext';
+import { useComparison } from './contexts/ComparisonContext';
+import { CATALOG_ADMIN_ENABLED } from './services/catalogOverrides';
 import Header from './components/Header';
 import HomePage from './pages/HomePage';
 import CoursesPage from './pages/CoursesPage';
 import FavoritesPage from './pages/FavoritesPage';
 import SettingsPage from './pages/SettingsPage';
+import AdminCatalogPage from './pages/AdminCatalogPage';
 import CourseModal from './components/CourseModal';
+import CatalogStatus from './components/CatalogStatus';
+import ComparisonTray from './components/ComparisonTray';
+import ComparisonView from './components/ComparisonView';
 
 /**
  * The main application component.
  * It sets up the router, global state providers, and manages the main layout.
  */
 function App() {
-  const courses = useCourses();
+  const { courses, status: catalogStatus } = useCatalog();
+  const { comparedIds } = useComparison();
   const [selectedCourse, setSelectedCourse] = useState<CourseRecommendation | null>(null);
 
+  // Courses that have since left the catalog drop out of the comparison
+  const comparedCourses = comparedIds.flatMap(id => courses.filter(course => course.id === id));
+
   /**
    * Handles selecting a course to view its details in a modal.
    * @param course - The course object to display.
@@ -37,13 +47,17 @@ function App() {
     <div className="flex flex-col h-screen bg-gray-50 dark:bg-gray-950 text-gray-800 dark:text-gray-200 transition-colors duration-300">
       <Header />
       <main className="flex-grow container mx-auto p-4 md:p-8 overflow-y-auto">
+        <CatalogStatus courseCount={courses.length} {...catalogStatus} />
         <Routes>
           <Route path="/" element={<HomePage courses={courses} onSelectCourse={handleSelectCourse} />} />
           <Route path="/courses" element={<CoursesPage courses={courses} onSelectCourse={handleSelectCourse} />} />
           <Route path="/favorites" element={<FavoritesPage courses={courses} onSelectCourse={handleSelectCourse} />} />
           <Route path="/settings" element={<SettingsPage />} />
+          <Route path="/admin/catalog" element={CATALOG_ADMIN_ENABLED ? <AdminCatalogPage /> : <Navigate to="/" replace />} />
         </Routes>
       </main>
+      <ComparisonTray courses={comparedCourses} />
+      <ComparisonView courses={comparedCourses} />
       <CourseModal
         isOpen={!!selectedCourse}
         onClose={handleCloseModal}
@@ -0,0 +1,3 @@
+import { advisorHandler } from '../server/advisorHandler';
+
+export default advisorHandler;
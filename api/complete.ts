@@ -0,0 +1,3 @@
+import { completeHandler } from '../server/completeHandler';
+
+export default completeHandler;
@@ -0,0 +1,3 @@
+import { healthHandler } from '../server/healthHandler';
+
+export default healthHandler;
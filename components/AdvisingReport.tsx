@@ -0,0 +1,125 @@
+import React from 'react';
+import type { ChatSession, Course } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { LEARNER_PROFILE_FIELDS } from '../services/learnerProfile';
+import { resolveCourseText } from '../services/localization';
+import { getFinalRecommendations, getLatestLearningPath } from '../services/sessionExport';
+import MarkdownText from './MarkdownText';
+import { XIcon } from './icons/Icons';
+
+/**
+ * Props for the AdvisingReport component.
+ */
+interface AdvisingReportProps {
+  session: ChatSession;
+  onClose: () => void;
+}
+
+/**
+ * A printable one-page summary of a conversation: the learner's profile, the courses the advisor recommended
+ * with its latest reasoning, and the latest learning path. Printing it prints only the report (see `index.css`).
+ */
+const AdvisingReport: React.FC<AdvisingReportProps> = ({ session, onClose }) => {
+  const { locale, t, formatDuration, formatDurationTotal } = useLanguage();
+  const recommendations = getFinalRecommendations(session.messages);
+  const learningPath = getLatestLearningPath(session.messages);
+  const profileFields = LEARNER_PROFILE_FIELDS.filter(field => session.profile?.[field]);
+
+  /**
+   * Renders a course's title and key facts.
+   */
+  const renderCourse = (course: Course) => (
+    <>
+      <span className="font-semibold text-gray-800 dark:text-gray-100">{resolveCourseText(course, 'title', locale)}</span>
+      <span className="block text-xs text-gray-500 dark:text-gray-400">
+        {[course.id, course.provider, t(`level.${course.level}`), formatDuration(course.duration)].join(' · ')}
+      </span>
+    </>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <article
+        className="advising-report bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8 text-gray-700 dark:text-gray-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex items-start justify-between gap-4 border-b border-gray-200 dark:border-gray-700 pb-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">{t('report.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {t('report.prepared', { date: new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(Date.now()), title: session.title })}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 print:hidden">
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg hover:bg-primary-hover transition-colors"
+            >
+              {t('report.print')}
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-white p-1" aria-label={t('report.close')}>
+              <XIcon />
+            </button>
+          </div>
+        </header>
+
+        <section className="mb-6">
+          <h3 className="font-semibold text-lg text-gray-800 dark:text-gray-100 mb-2">{t('export.profile')}</h3>
+          {profileFields.length ? (
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 text-sm">
+              {profileFields.map(field => (
+                <React.Fragment key={field}>
+                  <dt className="font-semibold text-gray-500 dark:text-gray-400">{t(`profile.field.${field}`)}</dt>
+                  <dd>{session.profile![field]}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          ) : (
+            <p className="text-sm italic text-gray-500 dark:text-gray-400">{t('report.noProfile')}</p>
+          )}
+        </section>
+
+        <section className="mb-6">
+          <h3 className="font-semibold text-lg text-gray-800 dark:text-gray-100 mb-2">{t('report.recommendations')}</h3>
+          {recommendations.length ? (
+            <ul className="space-y-3">
+              {recommendations.map(({ course, reasoning }) => (
+                <li key={course.id} className="break-inside-avoid">
+                  {renderCourse(course)}
+                  {reasoning && <div className="mt-1 text-sm"><MarkdownText text={reasoning} /></div>}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm italic text-gray-500 dark:text-gray-400">{t('report.noRecommendations')}</p>
+          )}
+        </section>
+
+        {learningPath && (
+          <section>
+            <h3 className="font-semibold text-lg text-gray-800 dark:text-gray-100">{t('learningPath.title')}</h3>
+            <p className="text-sm mb-2">
+              {learningPath.goal} · {t('learningPath.total', {
+                count: String(learningPath.steps.length),
+                duration: formatDurationTotal({ weeks: learningPath.totalWeeks, hours: learningPath.totalHours }),
+              })}
+            </p>
+            <ol className="list-decimal pl-5 space-y-2">
+              {learningPath.steps.map(step => (
+                <li key={step.course.id} className="break-inside-avoid">
+                  {renderCourse(step.course)}
+                  {step.reasoning && <p className="text-sm">{step.reasoning}</p>}
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+      </article>
+    </div>
+  );
+};
+
+export default AdvisingReport;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { ChevronLeftIcon, ChevronRightIcon } from './icons/Icons';
+
+/**
+ * Props for the BranchSwitcher component.
+ */
+interface BranchSwitcherProps {
+  /** The zero-based position of the shown branch among its siblings. */
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * A compact "‹ 2 / 3 ›" control for moving between the alternative versions of a chat message.
+ */
+const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ index, count, onSelect, disabled = false }) => {
+  const { t } = useLanguage();
+  const buttonClassName = 'p-0.5 rounded hover:text-gray-700 dark:hover:text-white disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400" role="group" aria-label={t('chatbot.branches')}>
+      <button type="button" onClick={() => onSelect(index - 1)} disabled={disabled || index === 0} className={buttonClassName} aria-label={t('chatbot.previousBranch')}>
+        <ChevronLeftIcon className="w-4 h-4" />
+      </button>
+      <span className="tabular-nums">{t('chatbot.branchPosition', { position: String(index + 1), count: String(count) })}</span>
+      <button type="button" onClick={() => onSelect(index + 1)} disabled={disabled || index === count - 1} className={buttonClassName} aria-label={t('chatbot.nextBranch')}>
+        <ChevronRightIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default BranchSwitcher;
@@ -0,0 +1,73 @@
+import React from 'react';
+import type { CoursesState } from '../hooks/useCourses';
+import { useLanguage } from '../contexts/LanguageContext';
+
+/**
+ * Props for the CatalogStatus component.
+ */
+type CatalogStatusProps = Omit<CoursesState, 'courses'> & { courseCount: number };
+
+/**
+ * A banner reporting the state of the course catalog: loading, failed to load,
+ * showing a cached copy after a failed refresh, or loaded with invalid records.
+ * Renders nothing when the catalog loaded cleanly.
+ */
+const CatalogStatus: React.FC<CatalogStatusProps> = ({ courseCount, isLoading, error, validationErrors, loadedAt, isStale, refresh }) => {
+  const { locale, t } = useLanguage();
+
+  const retryButton = (
+    <button
+      onClick={refresh}
+      disabled={isLoading}
+      className="px-3 py-1 text-sm font-semibold rounded-lg bg-white/70 hover:bg-white dark:bg-gray-800/70 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+    >
+      {t('catalog.retry')}
+    </button>
+  );
+
+  if (courseCount === 0) {
+    if (isLoading) {
+      return <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">{t('catalog.loading')}</p>;
+    }
+    if (error) {
+      return (
+        <div className="mb-4 p-4 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 flex items-center justify-between gap-4" role="alert">
+          <div>
+            <p className="font-semibold">{t('catalog.failed')}</p>
+            <p className="text-sm">{error.message}</p>
+          </div>
+          {retryButton}
+        </div>
+      );
+    }
+  }
+
+  return (
+    <>
+      {error && isStale && (
+        <div className="mb-4 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 flex items-center justify-between gap-4 text-sm" role="status">
+          <p>
+            {t('catalog.stale', {
+              time: loadedAt ? new Date(loadedAt).toLocaleString(locale === 'vi' ? 'vi-VN' : 'en-US') : '—',
+            })}
+          </p>
+          {retryButton}
+        </div>
+      )}
+      {validationErrors.length > 0 && (
+        <details className="mb-4 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/30 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 text-sm">
+          <summary className="cursor-pointer select-none">{t('catalog.invalidRecords', { count: String(validationErrors.length) })}</summary>
+          <ul className="mt-2 space-y-1 font-mono text-xs">
+            {validationErrors.map((fieldError, index) => (
+              <li key={index}>
+                #{fieldError.index + 1}{fieldError.courseId ? ` (${fieldError.courseId})` : ''} · {fieldError.field}: {fieldError.message}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </>
+  );
+};
+
+export default CatalogStatus;
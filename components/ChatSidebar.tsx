@@ -1,16 +1,45 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
+import type { ChatSession } from '../types';
 import { useChat } from '../contexts/ChatContext';
 import { useLanguage } from '../contexts/LanguageContext';
-import { PlusIcon, TrashIcon, ChatBubbleLeftIcon, PencilIcon } from './icons/Icons';
+import { downloadTextFile } from '../services/catalogExport';
+import {
+    exportFileName,
+    parseSessionImport,
+    sessionToMarkdown,
+    sessionsToJson,
+    sessionsToMarkdown,
+    SessionImportReport,
+} from '../services/sessionExport';
+import { EMPTY_SESSION_FILTERS, groupSessionResults, searchSessions, SessionFilters, SessionSearchResult } from '../services/sessionSearch';
+import AdvisingReport from './AdvisingReport';
+import HighlightedText from './HighlightedText';
+import { PlusIcon, TrashIcon, ChatBubbleLeftIcon, PencilIcon, DownloadIcon, PinIcon, SearchIcon } from './icons/Icons';
+
+/**
+ * The outcome of the latest import, shown until dismissed or the next import.
+ */
+type ImportNotice = { report: SessionImportReport; failure?: undefined } | { report?: undefined; failure: string };
 
 /**
  * A sidebar component to display and manage chat sessions.
+ * Sessions are listed by when they were last active, under pinned ones, and can be searched by message text
+ * and recommended course titles or filtered by date and by whether courses were recommended.
+ * Sessions can be exported one at a time or all together, as re-importable JSON or readable Markdown,
+ * and each can be opened as a printable advising report.
  */
 const ChatSidebar: React.FC = () => {
-    const { chatSessions, activeSessionId, createSession, deleteSession, setActiveSessionId, renameSession } = useChat();
-    const { t } = useLanguage();
+    const { chatSessions, activeSessionId, createSession, deleteSession, setActiveSessionId, renameSession, updateSession, importSessions } = useChat();
+    const language = useLanguage();
+    const { locale, t } = language;
+    const [filters, setFilters] = useState<SessionFilters>(EMPTY_SESSION_FILTERS);
+    const [showFilters, setShowFilters] = useState(false);
     const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
     const [newTitle, setNewTitle] = useState('');
+    const [exportMenuSessionId, setExportMenuSessionId] = useState<string | null>(null);
+    const [reportSessionId, setReportSessionId] = useState<string | null>(null);
+    const [importNotice, setImportNotice] = useState<ImportNotice | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
 
     const handleDelete = (e: React.MouseEvent, sessionId: string) => {
         e.stopPropagation();
@@ -32,6 +61,111 @@ const ChatSidebar: React.FC = () => {
         setNewTitle('');
     };
 
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const { sessions, rejected } = parseSessionImport(await file.text());
+            setImportNotice({ report: { ...importSessions(sessions), rejected } });
+        } catch (error) {
+            setImportNotice({ failure: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    /**
+     * Downloads sessions: one session under its own title, or the whole history.
+     */
+    const handleExport = (sessions: ChatSession[], format: 'json' | 'markdown') => {
+        const single = sessions.length === 1 ? sessions[0] : null;
+        if (format === 'json') {
+            downloadTextFile(exportFileName(single, 'json'), sessionsToJson(sessions), 'application/json');
+        } else {
+            const markdown = single ? sessionToMarkdown(single, language) : sessionsToMarkdown(sessions, language);
+            downloadTextFile(exportFileName(single, 'md'), markdown, 'text/markdown');
+        }
+        setExportMenuSessionId(null);
+    };
+
+    const sections = useMemo(
+        () => groupSessionResults(searchSessions(chatSessions, filters, locale), Date.now()),
+        [chatSessions, filters, locale]
+    );
+    const hasActiveFilters = filters.withRecommendations || !!filters.from || !!filters.to;
+
+    const renderSession = ({ session, matchedTerms, snippet }: SessionSearchResult) => (
+        <div
+            key={session.id}
+            onClick={() => setActiveSessionId(session.id)}
+            className={`relative group flex items-center justify-between p-2 rounded-lg cursor-pointer mb-2 transition-colors ${activeSessionId === session.id ? 'bg-primary-light dark:bg-primary/30' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+        >
+            <div className="flex items-center gap-2 overflow-hidden">
+                <ChatBubbleLeftIcon className="w-5 h-5 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+                {editingSessionId === session.id ? (
+                    <input
+                        type="text"
+                        value={newTitle}
+                        onChange={(e) => setNewTitle(e.target.value)}
+                        onBlur={() => handleSaveRename(session.id)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSaveRename(session.id)}
+                        className="text-sm font-medium bg-transparent border-b border-primary w-full focus:outline-none text-gray-800 dark:text-gray-200"
+                        autoFocus
+                    />
+                ) : (
+                    <div className="overflow-hidden">
+                        <span className="block text-sm font-medium text-gray-800 dark:text-gray-200 truncate">
+                            <HighlightedText text={session.title} terms={matchedTerms} />
+                        </span>
+                        {snippet && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
+                                <HighlightedText text={snippet} terms={matchedTerms} />
+                            </span>
+                        )}
+                    </div>
+                )}
+            </div>
+            <div className={`flex items-center gap-1 transition-opacity ${exportMenuSessionId === session.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                <button
+                    onClick={(e) => { e.stopPropagation(); updateSession(session.id, { pinned: !session.pinned }); }}
+                    aria-label={session.pinned ? t('sidebar.unpin') : t('sidebar.pin')}
+                    aria-pressed={!!session.pinned}
+                    className={`p-1 rounded ${session.pinned ? 'text-primary dark:text-primary-light' : 'text-gray-500 hover:text-primary dark:hover:text-white'}`}
+                >
+                    <PinIcon className="w-4 h-4" />
+                </button>
+                <button
+                    onClick={(e) => { e.stopPropagation(); setExportMenuSessionId(id => id === session.id ? null : session.id); }}
+                    aria-label={t('sidebar.exportSession')}
+                    aria-expanded={exportMenuSessionId === session.id}
+                    className="text-gray-500 hover:text-primary dark:hover:text-white p-1 rounded"
+                >
+                    <DownloadIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleRename(session.id, session.title)} aria-label={t('sidebar.rename')} className="text-gray-500 hover:text-primary dark:hover:text-white p-1 rounded">
+                    <PencilIcon className="w-4 h-4" />
+                </button>
+                <button onClick={(e) => handleDelete(e, session.id)} aria-label={t('sidebar.delete')} className="text-gray-500 hover:text-red-500 dark:hover:text-red-400 p-1 rounded">
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </div>
+            {exportMenuSessionId === session.id && (
+                <div
+                    onClick={(e) => e.stopPropagation()}
+                    className="absolute right-2 top-full z-10 -mt-1 py-1 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+                >
+                    <button onClick={() => handleExport([session], 'json')} className={menuItemClass}>{t('sidebar.exportJson')}</button>
+                    <button onClick={() => handleExport([session], 'markdown')} className={menuItemClass}>{t('sidebar.exportMarkdown')}</button>
+                    <button onClick={() => { setReportSessionId(session.id); setExportMenuSessionId(null); }} className={menuItemClass}>{t('sidebar.openReport')}</button>
+                </div>
+            )}
+        </div>
+    );
+
+    const reportSession = chatSessions.find(session => session.id === reportSessionId);
+    const toolbarButtonClass = 'text-xs font-medium text-gray-600 dark:text-gray-300 hover:text-primary dark:hover:text-white disabled:text-gray-300 dark:disabled:text-gray-600 disabled:cursor-not-allowed transition-colors';
+    const menuItemClass = 'block w-full text-left px-3 py-1.5 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700';
+
     return (
       <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 flex flex-col h-full w-full">
             <div className="p-4 border-b border-gray-200 dark:border-gray-700">
@@ -43,43 +177,100 @@ const ChatSidebar: React.FC = () => {
                     <PlusIcon className="w-5 h-5" />
                     {t('sidebar.newConversation')}
                 </button>
-            </div>
-            <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
-                {chatSessions.map(session => (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-3">
+                    <button onClick={() => fileInputRef.current?.click()} className={toolbarButtonClass}>{t('sidebar.import')}</button>
+                    <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                    <button onClick={() => handleExport(chatSessions, 'json')} disabled={chatSessions.length === 0} className={toolbarButtonClass}>
+                        {t('sidebar.exportAllJson')}
+                    </button>
+                    <button onClick={() => handleExport(chatSessions, 'markdown')} disabled={chatSessions.length === 0} className={toolbarButtonClass}>
+                        {t('sidebar.exportAllMarkdown')}
+                    </button>
+                </div>
+                {importNotice && (
                     <div
-                        key={session.id}
-                        onClick={() => setActiveSessionId(session.id)}
-                        className={`group flex items-center justify-between p-2 rounded-lg cursor-pointer mb-2 transition-colors ${activeSessionId === session.id ? 'bg-primary-light dark:bg-primary/30' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                        role="status"
+                        className={`mt-3 p-2 rounded-lg border text-xs ${importNotice.failure
+                            ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+                            : 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800 text-green-800 dark:text-green-300'}`}
                     >
-                        <div className="flex items-center gap-2 overflow-hidden">
-                            <ChatBubbleLeftIcon className="w-5 h-5 text-gray-500 dark:text-gray-400" />
-                            {editingSessionId === session.id ? (
-                                <input
-                                    type="text"
-                                    value={newTitle}
-                                    onChange={(e) => setNewTitle(e.target.value)}
-                                    onBlur={() => handleSaveRename(session.id)}
-                                    onKeyDown={(e) => e.key === 'Enter' && handleSaveRename(session.id)}
-                                    className="text-sm font-medium bg-transparent border-b border-primary w-full focus:outline-none text-gray-800 dark:text-gray-200"
-                                    autoFocus
-                                />
-                            ) : (
-                                <span className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{session.title}</span>
-                            )}
+                        {importNotice.failure ? (
+                            <p>{t('sidebar.importFailed', { message: importNotice.failure })}</p>
+                        ) : (
+                            <>
+                                <p>{t('sidebar.importSucceeded', { count: String(importNotice.report.added) })}</p>
+                                {importNotice.report.duplicates > 0 && <p>{t('sidebar.importDuplicates', { count: String(importNotice.report.duplicates) })}</p>}
+                                {importNotice.report.reassigned > 0 && <p>{t('sidebar.importReassigned', { count: String(importNotice.report.reassigned) })}</p>}
+                                {importNotice.report.rejected > 0 && <p>{t('sidebar.importRejected', { count: String(importNotice.report.rejected) })}</p>}
+                            </>
+                        )}
+                        <button onClick={() => setImportNotice(null)} className="mt-1 font-semibold hover:underline">{t('sidebar.dismiss')}</button>
+                    </div>
+                )}
+                <div className="relative mt-3">
+                    <span className="absolute inset-y-0 left-2 flex items-center text-gray-400 [&>svg]:w-4 [&>svg]:h-4"><SearchIcon /></span>
+                    <input
+                        type="search"
+                        value={filters.query}
+                        onChange={(e) => setFilters(current => ({ ...current, query: e.target.value }))}
+                        placeholder={t('sidebar.searchPlaceholder')}
+                        aria-label={t('sidebar.searchPlaceholder')}
+                        className="w-full pl-8 pr-2 py-1.5 text-sm bg-gray-100 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-gray-800 dark:text-gray-200"
+                    />
+                </div>
+                <button
+                    onClick={() => setShowFilters(open => !open)}
+                    aria-expanded={showFilters}
+                    className={`mt-2 ${toolbarButtonClass} ${hasActiveFilters ? 'text-primary dark:text-primary-light' : ''}`}
+                >
+                    {t('sidebar.filters')}{hasActiveFilters ? ' •' : ''}
+                </button>
+                {showFilters && (
+                    <div className="mt-2 space-y-2 text-xs text-gray-600 dark:text-gray-300">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={filters.withRecommendations}
+                                onChange={(e) => setFilters(current => ({ ...current, withRecommendations: e.target.checked }))}
+                                className="rounded text-primary focus:ring-primary"
+                            />
+                            {t('sidebar.withRecommendations')}
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(['from', 'to'] as const).map(bound => (
+                                <label key={bound} className="flex flex-col gap-1">
+                                    {t(`sidebar.${bound}`)}
+                                    <input
+                                        type="date"
+                                        value={filters[bound] ?? ''}
+                                        onChange={(e) => setFilters(current => ({ ...current, [bound]: e.target.value || undefined }))}
+                                        className="px-1 py-1 bg-gray-100 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded text-gray-800 dark:text-gray-200"
+                                    />
+                                </label>
+                            ))}
                         </div>
-                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                            <button onClick={() => handleRename(session.id, session.title)} className="text-gray-500 hover:text-primary dark:hover:text-white p-1 rounded">
-                                <PencilIcon className="w-4 h-4" />
+                        {hasActiveFilters && (
+                            <button onClick={() => setFilters(current => ({ ...EMPTY_SESSION_FILTERS, query: current.query }))} className="font-semibold hover:underline">
+                                {t('sidebar.clearFilters')}
                             </button>
-                            <button onClick={(e) => handleDelete(e, session.id)} className="text-gray-500 hover:text-red-500 dark:hover:text-red-400 p-1 rounded">
-                                <TrashIcon className="w-4 h-4" />
-                            </button>
-                        </div>
+                        )}
                     </div>
+                )}
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+                {sections.map(({ group, results }) => (
+                    <section key={group} className="mb-2">
+                        <h3 className="px-2 mb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">{t(`sidebar.group.${group}`)}</h3>
+                        {results.map(renderSession)}
+                    </section>
                 ))}
+                {sections.length === 0 && chatSessions.length > 0 && (
+                    <p className="text-sm text-center text-gray-500 dark:text-gray-400 mt-4">{t('sidebar.noMatches')}</p>
+                )}
             </div>
+            {reportSession && <AdvisingReport session={reportSession} onClose={() => setReportSessionId(null)} />}
         </div>
     );
 };
 
-export default ChatSidebar;
\ No newline at end of file
+export default ChatSidebar;
@@ -1,11 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { Course, ChatMessage } from '../types';
+import type { Course, ChatMessage, RetrievalMatch, ToolTraceEntry } from '../types';
 import { getAiResponse, GeminiResponse } from '../services/geminiService';
+import { classifyError } from '../services/advisorErrors';
 import CourseCard from './CourseCard';
-import { SendIcon, UserIcon, BotIcon } from './icons/Icons';
+import ShortlistDebug from './ShortlistDebug';
+import ToolTrace from './ToolTrace';
+import LearningPathTimeline from './LearningPathTimeline';
+import BranchSwitcher from './BranchSwitcher';
+import MarkdownText from './MarkdownText';
+import { SendIcon, UserIcon, BotIcon, PencilIcon, RefreshIcon } from './icons/Icons';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useRecommendations } from '../contexts/RecommendationContext';
 import { useChat } from '../contexts/ChatContext';
+import { useAppSettings } from '../contexts/AppSettingsContext';
+import { mergeProfileUpdate } from '../services/learnerProfile';
+import { getAdvisorPromptVersion } from '../services/prompts/advisorPrompt';
+import { keepSummaryForBranch, refreshSummary } from '../services/historyManager';
+import { getSiblings } from '../services/messageTree';
+import { generateSessionTitle, isTitleDue } from '../services/sessionTitle';
+import { buildLearningPath } from '../services/learningPath';
 
 /**
  * Props for the Chatbot component.
@@ -22,9 +35,13 @@ interface ChatbotProps {
 const Chatbot: React.FC<ChatbotProps> = ({ courses, onSelectCourse }) => {
   const { locale, t } = useLanguage();
   const { setRecommendations } = useRecommendations();
-  const { activeSession, updateActiveSession, createSession } = useChat();
+  const { activeSession, appendMessages, selectBranch, rewindToMessage, removeMessage, updateSession, mergeSessionProfile, applyGeneratedTitle, createSession } = useChat();
+  const { advisorSettings } = useAppSettings();
   const [isLoading, setIsLoading] = useState(false);
   const [inputValue, setInputValue] = useState('');
+  const [streamingText, setStreamingText] = useState('');
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -36,26 +53,44 @@ const Chatbot: React.FC<ChatbotProps> = ({ courses, onSelectCourse }) => {
   // Scroll to the latest message
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [activeSession?.messages, isLoading]);
+  }, [activeSession?.messages, isLoading, streamingText]);
 
 
   /**
-   * Handles sending a user message, processing the answer, and getting the next AI response.
+   * Gets the AI's reply to the given history and adds it to the session after the history's last message.
+   * If that message already has replies, the new one becomes a sibling branch.
+   * If the turn fails, an error message is added instead so the user can retry it.
+   * @param history - The messages to reply to, ending with the user's latest message. Only this branch is sent to the AI.
    */
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputValue.trim() || isLoading || !activeSession) return;
-
-    const userMessage: ChatMessage = { sender: 'user', text: inputValue };
-    const newMessages = [...activeSession.messages, userMessage];
-    
-    updateActiveSession(newMessages);
-    setInputValue('');
+  const requestAiResponse = async (history: ChatMessage[]) => {
     setIsLoading(true);
+    const sessionId = activeSession.id;
+    const parentId = history[history.length - 1]?.id ?? null;
+    let shortlist: RetrievalMatch[] | undefined;
+    const toolTrace: ToolTraceEntry[] = [];
 
     try {
-      // Get the AI's response based on the conversation history
-      const result: GeminiResponse = await getAiResponse(newMessages, courses, locale);
+      // Fold older turns into the running summary first, so long sessions stay within the model's limits
+      const branchSummary = keepSummaryForBranch(activeSession.summary, history);
+      const summary = await refreshSummary(history, branchSummary, advisorSettings, locale);
+      if (summary !== activeSession.summary) {
+        updateSession(sessionId, { summary });
+      }
+
+      // Get the AI's response based on the conversation history, showing the text as it streams in
+      const result: GeminiResponse = await getAiResponse(history, courses, locale, {
+        onPartialResponse: setStreamingText,
+        retrievalTopN: advisorSettings.retrievalTopN,
+        onShortlist: matches => { shortlist = matches; },
+        profile: activeSession.profile,
+        summary,
+        useTools: advisorSettings.useCatalogTools,
+        onToolCall: entry => { toolTrace.push(entry); },
+      });
+
+      // Merge into the latest profile rather than the one sent, which the user may have corrected meanwhile
+      mergeSessionProfile(sessionId, result.profileUpdate);
+      updateSession(sessionId, { promptVersion: getAdvisorPromptVersion(locale, advisorSettings.useCatalogTools) });
       
       const recommendedCoursesWithDetails = result.recommendations
         ?.map(rec => {
@@ -64,28 +99,112 @@ const Chatbot: React.FC<ChatbotProps> = ({ courses, onSelectCourse }) => {
         })
         .filter((c): c is { course: Course; reasoning: string } => c !== null);
       
-      if (result.recommendations) {
-        // Persist recommendations to context
-        setRecommendations(result.recommendations);
+      // Put the path's courses in a workable order, adding any prerequisites the AI left out
+      const learningPath = result.learningPath
+        ? buildLearningPath(result.learningPath.goal, result.learningPath.steps, courses) ?? undefined
+        : undefined;
+
+      if (result.recommendations || learningPath) {
+        // Persist recommendations to context, counting the path's courses as recommended too
+        const pathRecommendations = (learningPath?.steps ?? [])
+          .filter(step => !result.recommendations?.some(rec => rec.courseId === step.course.id))
+          .map(step => ({ courseId: step.course.id, reasoning: step.reasoning ?? '' }));
+        setRecommendations([...(result.recommendations ?? []), ...pathRecommendations]);
       }
 
       const aiResponseMessage: ChatMessage = {
         sender: 'ai',
         text: result.chatResponse,
         recommendedCourses: recommendedCoursesWithDetails,
+        learningPath,
+        shortlist,
+        toolTrace: toolTrace.length ? toolTrace : undefined,
       };
 
-      updateActiveSession([...newMessages, aiResponseMessage]);
+      appendMessages(sessionId, parentId, [aiResponseMessage]);
+
+      // Name the session in the background once there is something to name it after, without holding up the reply
+      const branch = [...history, aiResponseMessage];
+      if (isTitleDue(activeSession, branch)) {
+        generateSessionTitle(branch, mergeProfileUpdate(activeSession.profile, result.profileUpdate), locale).then(title => title && applyGeneratedTitle(sessionId, title));
+      }
       
     } catch (error) {
-      console.error(error);
-      const errorText = locale === 'vi' ? 'Xin lỗi, tôi đã gặp lỗi khi xử lý yêu cầu của bạn. Vui lòng thử lại.' : 'Sorry, I encountered an error while processing your request. Please try again.';
-      updateActiveSession([...newMessages, { sender: 'ai', text: errorText }]);
+      const { kind, partialText } = classifyError(error);
+      // Keep what the user already read, if anything, alongside the error.
+      appendMessages(sessionId, parentId, [{ sender: 'ai', text: partialText, error: { kind }, shortlist }]);
     } finally {
       setIsLoading(false);
+      setStreamingText('');
     }
   };
 
+  /**
+   * Handles sending a user message and getting the next AI response.
+   */
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputValue.trim() || isLoading || !activeSession) return;
+
+    const userMessage: ChatMessage = { sender: 'user', text: inputValue };
+    const lastMessageId = activeSession.messages[activeSession.messages.length - 1]?.id ?? null;
+    const [id] = appendMessages(activeSession.id, lastMessageId, [userMessage]);
+
+    setInputValue('');
+    await requestAiResponse([...activeSession.messages, { ...userMessage, id }]);
+  };
+
+  /**
+   * Replaces a failed turn with a new attempt at the same reply.
+   * @param index - The index of the failed message.
+   */
+  const handleRetry = async (index: number) => {
+    if (isLoading || !activeSession) return;
+
+    const failed = activeSession.messages[index];
+    if (failed.id) removeMessage(activeSession.id, failed.id);
+    await requestAiResponse(activeSession.messages.slice(0, index));
+  };
+
+  /**
+   * Asks for a new version of an AI reply. The old reply is kept as a sibling branch.
+   * @param index - The index of the reply.
+   */
+  const handleRegenerate = async (index: number) => {
+    if (isLoading || !activeSession) return;
+
+    const history = activeSession.messages.slice(0, index);
+    const parentId = history[history.length - 1]?.id;
+    if (parentId) rewindToMessage(activeSession.id, parentId);
+    await requestAiResponse(history);
+  };
+
+  /**
+   * Starts editing one of the user's messages.
+   * @param message - The message to edit.
+   */
+  const handleStartEdit = (message: ChatMessage) => {
+    setEditingMessageId(message.id ?? null);
+    setEditText(message.text ?? '');
+  };
+
+  /**
+   * Sends an edited user message as a new branch next to the original, and gets the AI's reply to it.
+   * @param index - The index of the edited message.
+   */
+  const handleSaveEdit = async (index: number) => {
+    if (isLoading || !activeSession) return;
+
+    const text = editText.trim();
+    setEditingMessageId(null);
+    if (!text || text === activeSession.messages[index].text) return;
+
+    const history = activeSession.messages.slice(0, index);
+    const editedMessage: ChatMessage = { sender: 'user', text };
+    const [id] = appendMessages(activeSession.id, history[history.length - 1]?.id ?? null, [editedMessage]);
+    await requestAiResponse([...history, { ...editedMessage, id }]);
+  };
+
   if (!activeSession) {
     return (
         <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
@@ -94,18 +213,112 @@ const Chatbot: React.FC<ChatbotProps> = ({ courses, onSelectCourse }) => {
     );
   }
 
+  /**
+   * Opens a course mentioned in an advisor message, with the advisor's reasoning if it also recommended the course.
+   * @param course - The mentioned course.
+   * @param msg - The message that mentions it.
+   */
+  const openMentionedCourse = (course: Course, msg: ChatMessage) => {
+    onSelectCourse(course, msg.recommendedCourses?.find(rec => rec.course.id === course.id)?.reasoning ?? '');
+  };
+
+  /**
+   * Renders the controls under a message: the switcher between its versions, and editing or regenerating it.
+   * @param msg - The message.
+   * @param index - Its index on the selected branch.
+   */
+  const renderMessageActions = (msg: ChatMessage, index: number) => {
+    if (!msg.id || msg.id === editingMessageId) return null;
+
+    const siblings = getSiblings(activeSession.messageTree, msg.id);
+    const canEdit = msg.sender === 'user';
+    const canRegenerate = msg.sender === 'ai' && !msg.error && index > 0;
+    if (siblings.length < 2 && !canEdit && !canRegenerate) return null;
+
+    return (
+      <div className="flex items-center gap-2 text-gray-400 dark:text-gray-500">
+        {siblings.length > 1 && (
+          <BranchSwitcher
+            index={siblings.findIndex(sibling => sibling.message.id === msg.id)}
+            count={siblings.length}
+            onSelect={position => selectBranch(activeSession.id, siblings[position].message.id)}
+            disabled={isLoading}
+          />
+        )}
+        {canEdit && (
+          <button type="button" onClick={() => handleStartEdit(msg)} disabled={isLoading} className="p-1 rounded hover:text-primary disabled:cursor-not-allowed" aria-label={t('chatbot.editMessage')} title={t('chatbot.editMessage')}>
+            <PencilIcon className="w-4 h-4" />
+          </button>
+        )}
+        {canRegenerate && (
+          <button type="button" onClick={() => handleRegenerate(index)} disabled={isLoading} className="p-1 rounded hover:text-primary disabled:cursor-not-allowed" aria-label={t('chatbot.regenerate')} title={t('chatbot.regenerate')}>
+            <RefreshIcon className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 flex flex-col h-full w-full">
       <div className="flex-1 p-6 overflow-y-auto space-y-6">
         {activeSession.messages.map((msg, index) => (
-          <div key={index} className={`flex items-end gap-3 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+          <div key={msg.id ?? index} className={`flex items-end gap-3 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
              {msg.sender === 'ai' && <div className="flex-shrink-0 w-8 h-8 bg-primary-light dark:bg-primary/20 rounded-full flex items-center justify-center"><BotIcon className="w-5 h-5 text-primary dark:text-gray-200"/></div>}
              <div className={`w-full max-w-lg flex flex-col gap-2 ${msg.sender === 'user' ? 'items-end' : 'items-start'}`}>
-                {msg.text && (
+                {msg.error ? (
+                   <div className="px-4 py-3 rounded-2xl rounded-bl-none bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-gray-700 dark:text-gray-200" role="alert">
+                     {msg.text && (
+                       <>
+                         <MarkdownText text={msg.text} courses={courses} onSelectCourse={course => openMentionedCourse(course, msg)} />
+                         <p className="mt-2 text-xs italic text-gray-500 dark:text-gray-400">{t('chatbot.interrupted')}</p>
+                       </>
+                     )}
+                     <p className={`text-sm text-red-700 dark:text-red-300 ${msg.text ? 'mt-2' : ''}`}>{t(`chatbot.error.${msg.error.kind}`)}</p>
+                     {index === activeSession.messages.length - 1 && (
+                       <button
+                         type="button"
+                         onClick={() => handleRetry(index)}
+                         disabled={isLoading}
+                         className="mt-2 px-3 py-1 text-sm font-medium text-white bg-primary rounded-full hover:bg-primary-hover disabled:bg-gray-300 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+                       >
+                         {t('chatbot.retry')}
+                       </button>
+                     )}
+                   </div>
+                ) : editingMessageId !== null && msg.id === editingMessageId ? (
+                   <form
+                     onSubmit={e => { e.preventDefault(); handleSaveEdit(index); }}
+                     className="w-full flex flex-col items-end gap-2"
+                   >
+                     <textarea
+                       value={editText}
+                       onChange={e => setEditText(e.target.value)}
+                       onKeyDown={e => e.key === 'Escape' && setEditingMessageId(null)}
+                       rows={3}
+                       autoFocus
+                       aria-label={t('chatbot.editMessage')}
+                       className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-2xl focus:outline-none focus:ring-2 focus:ring-primary text-gray-800 dark:text-gray-200"
+                     />
+                     <div className="flex gap-2">
+                       <button type="button" onClick={() => setEditingMessageId(null)} className="px-3 py-1 text-sm font-medium text-gray-600 dark:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">
+                         {t('chatbot.cancelEdit')}
+                       </button>
+                       <button type="submit" disabled={!editText.trim() || isLoading} className="px-3 py-1 text-sm font-medium text-white bg-primary rounded-full hover:bg-primary-hover disabled:bg-gray-300 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
+                         {t('chatbot.saveEdit')}
+                       </button>
+                     </div>
+                   </form>
+                ) : msg.text && (
                    <div className={`px-4 py-3 rounded-2xl ${msg.sender === 'user' ? 'bg-user-bubble text-white rounded-br-none' : 'bg-ai-bubble dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-bl-none'}`}>
-                     <p className="whitespace-pre-wrap">{msg.text}</p>
+                     {msg.sender === 'ai' ? (
+                       <MarkdownText text={msg.text} courses={courses} onSelectCourse={course => openMentionedCourse(course, msg)} />
+                     ) : (
+                       <p className="whitespace-pre-wrap">{msg.text}</p>
+                     )}
                    </div>
                 )}
+                {renderMessageActions(msg, index)}
                 {msg.recommendedCourses && (
                   <div className="grid grid-cols-1 gap-4 mt-2 w-full">
                     {msg.recommendedCourses.map(({ course, reasoning }) => (
@@ -113,6 +326,15 @@ const Chatbot: React.FC<ChatbotProps> = ({ courses, onSelectCourse }) => {
                     ))}
                   </div>
                 )}
+                {msg.learningPath && (
+                  <LearningPathTimeline path={msg.learningPath} onSelectCourse={onSelectCourse} />
+                )}
+                {advisorSettings.showToolTrace && msg.toolTrace && (
+                  <ToolTrace entries={msg.toolTrace} />
+                )}
+                {advisorSettings.showRetrievalDebug && msg.shortlist && (
+                  <ShortlistDebug matches={msg.shortlist} courses={courses} />
+                )}
              </div>
              {msg.sender === 'user' && <div className="flex-shrink-0 w-8 h-8 bg-gray-200 dark:bg-gray-600 rounded-full flex items-center justify-center"><UserIcon className="w-5 h-5 text-gray-600 dark:text-gray-200"/></div>}
           </div>
@@ -120,12 +342,19 @@ const Chatbot: React.FC<ChatbotProps> = ({ courses, onSelectCourse }) => {
         {isLoading && (
           <div className="flex items-end gap-3 justify-start">
             <div className="flex-shrink-0 w-8 h-8 bg-primary-light dark:bg-primary/20 rounded-full flex items-center justify-center"><BotIcon className="w-5 h-5 text-primary dark:text-gray-200"/></div>
-            <div className={`px-4 py-3 rounded-2xl bg-ai-bubble dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-bl-none`}>
+            <div className={`px-4 py-3 rounded-2xl bg-ai-bubble dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-bl-none ${streamingText ? 'max-w-lg' : ''}`}>
+              {streamingText ? (
+                <MarkdownText
+                  text={streamingText}
+                  trailing={<span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse"></span>}
+                />
+              ) : (
                 <div className="flex items-center gap-2">
                     <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{animationDelay: '0s'}}></span>
                     <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></span>
                     <span className="w-2 h-2 bg-primary rounded-full animate-bounce" style={{animationDelay: '0.4s'}}></span>
                 </div>
+              )}
             </div>
           </div>
         )}
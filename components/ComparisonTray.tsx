@@ -0,0 +1,74 @@
+import React from 'react';
+import type { Course } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useComparison } from '../contexts/ComparisonContext';
+import { resolveCourseText } from '../services/localization';
+import { MIN_COMPARED_COURSES, MAX_COMPARED_COURSES } from '../services/courseComparison';
+import { CompareIcon, XIcon } from './icons/Icons';
+
+/**
+ * Props for the ComparisonTray component.
+ */
+interface ComparisonTrayProps {
+  /** The courses in the tray, in the order they were added. */
+  courses: Course[];
+}
+
+/**
+ * A bar along the bottom of the app listing the courses picked for comparison.
+ * Hidden while the tray is empty; the compare button is enabled once it holds at least `MIN_COMPARED_COURSES` courses.
+ */
+const ComparisonTray: React.FC<ComparisonTrayProps> = ({ courses }) => {
+  const { locale, t } = useLanguage();
+  const { toggleCompared, clearCompared, setComparisonOpen } = useComparison();
+
+  if (courses.length === 0) return null;
+
+  const canCompare = courses.length >= MIN_COMPARED_COURSES;
+
+  return (
+    <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 shadow-lg" role="region" aria-label={t('comparison.trayLabel')}>
+      <div className="container mx-auto px-4 md:px-8 py-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+          {t('comparison.trayCount', { count: String(courses.length), max: String(MAX_COMPARED_COURSES) })}
+        </span>
+        <ul className="flex flex-wrap gap-2 flex-grow">
+          {courses.map(course => {
+            const title = resolveCourseText(course, 'title', locale);
+            return (
+              <li key={course.id} className="flex items-center gap-1 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200 rounded-full pl-3 pr-1 py-1 text-sm">
+                <span className="max-w-[12rem] truncate">{title}</span>
+                <button
+                  onClick={() => toggleCompared(course.id)}
+                  aria-label={t('course.removeFromComparison', { title })}
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-white rounded-full p-0.5 [&>svg]:h-4 [&>svg]:w-4"
+                >
+                  <XIcon />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={clearCompared}
+            className="px-3 py-1.5 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white"
+          >
+            {t('comparison.clear')}
+          </button>
+          <button
+            onClick={() => setComparisonOpen(true)}
+            disabled={!canCompare}
+            title={canCompare ? undefined : t('comparison.needMore', { count: String(MIN_COMPARED_COURSES) })}
+            className="flex items-center gap-2 px-4 py-1.5 bg-primary text-white text-sm font-semibold rounded-lg hover:bg-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CompareIcon className="w-4 h-4" />
+            {t('comparison.open')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonTray;
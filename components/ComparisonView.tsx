@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import type { AdvisorErrorKind, Course } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useComparison } from '../contexts/ComparisonContext';
+import { useChat } from '../contexts/ChatContext';
+import { localizeCourse } from '../services/localization';
+import { canJudgeAgainstSession, getComparisonVerdict } from '../services/courseComparison';
+import { classifyError } from '../services/advisorErrors';
+import MarkdownText from './MarkdownText';
+import { BotIcon, XIcon } from './icons/Icons';
+
+/**
+ * Props for the ComparisonView component.
+ */
+interface ComparisonViewProps {
+  /** The courses to compare, in the order they were added to the tray. */
+  courses: Course[];
+}
+
+/**
+ * A modal table comparing the courses in the comparison tray on level, duration, provider, topics and description.
+ * The "Which fits me?" button asks the advisor to weigh them against the active chat session.
+ */
+const ComparisonView: React.FC<ComparisonViewProps> = ({ courses }) => {
+  const { locale, t, formatDuration } = useLanguage();
+  const { isComparisonOpen, setComparisonOpen, toggleCompared } = useComparison();
+  const { activeSession } = useChat();
+  const [verdict, setVerdict] = useState<string | null>(null);
+  const [verdictError, setVerdictError] = useState<AdvisorErrorKind | null>(null);
+  const [isJudging, setIsJudging] = useState(false);
+
+  const courseKey = courses.map(course => course.id).join(',');
+
+  // A verdict only holds for the courses and conversation it was given
+  useEffect(() => {
+    setVerdict(null);
+    setVerdictError(null);
+  }, [courseKey, activeSession?.id, locale]);
+
+  if (!isComparisonOpen || courses.length === 0) return null;
+
+  const onClose = () => setComparisonOpen(false);
+  const canJudge = canJudgeAgainstSession(activeSession);
+
+  /**
+   * Asks the advisor which course fits the learner best.
+   */
+  const handleJudge = async () => {
+    if (!canJudgeAgainstSession(activeSession)) return;
+    setIsJudging(true);
+    setVerdictError(null);
+    try {
+      setVerdict(await getComparisonVerdict(courses, activeSession, locale));
+    } catch (error) {
+      setVerdictError(classifyError(error).kind);
+    } finally {
+      setIsJudging(false);
+    }
+  };
+
+  const localized = courses.map(course => ({ course, ...localizeCourse(course, locale) }));
+  const rows: { label: string; render: (course: Course, description: string) => React.ReactNode }[] = [
+    { label: t('course.level'), render: course => t(`level.${course.level}`) },
+    { label: t('course.duration'), render: course => formatDuration(course.duration) },
+    { label: t('course.provider'), render: course => course.provider },
+    {
+      label: t('modal.topicsTitle'),
+      render: course => (
+        <div className="flex flex-wrap gap-1">
+          {course.topics.map(topic => (
+            <span key={topic} className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-2 py-0.5 rounded-full text-xs font-medium">{topic}</span>
+          ))}
+        </div>
+      ),
+    },
+    { label: t('modal.descriptionTitle'), render: (_, description) => description },
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 dark:bg-opacity-75 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="comparison-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 md:p-8">
+          <div className="flex justify-between items-start mb-6">
+            <h2 id="comparison-title" className="text-2xl md:text-3xl font-bold text-gray-800 dark:text-gray-100">{t('comparison.title')}</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full p-2 transition-colors"
+              aria-label={t('modal.close')}
+            >
+              <XIcon />
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left border-collapse">
+              <thead>
+                <tr>
+                  <th scope="col" className="w-32" />
+                  {localized.map(({ course, title }) => (
+                    <th key={course.id} scope="col" className="align-top p-3 border-b border-gray-200 dark:border-gray-700">
+                      <div className="flex items-start justify-between gap-2">
+                        <span className="font-bold text-gray-800 dark:text-gray-100">{title}</span>
+                        <button
+                          onClick={() => toggleCompared(course.id)}
+                          aria-label={t('course.removeFromComparison', { title })}
+                          className="text-gray-400 hover:text-gray-600 dark:hover:text-white rounded-full [&>svg]:h-4 [&>svg]:w-4"
+                        >
+                          <XIcon />
+                        </button>
+                      </div>
+                      <span className="font-mono text-xs font-normal text-gray-400">{course.id}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label} className="border-b border-gray-100 dark:border-gray-700">
+                    <th scope="row" className="align-top p-3 font-semibold text-gray-600 dark:text-gray-300">{row.label}</th>
+                    {localized.map(({ course, description }) => (
+                      <td key={course.id} className="align-top p-3 text-gray-700 dark:text-gray-300">{row.render(course, description)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-6 bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-2 font-semibold text-gray-800 dark:text-gray-100">
+                <BotIcon className="w-5 h-5 text-primary" />
+                {t('comparison.verdictTitle')}
+              </div>
+              <button
+                onClick={handleJudge}
+                disabled={!canJudge || isJudging}
+                className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg hover:bg-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isJudging ? t('comparison.judging') : verdict ? t('comparison.judgeAgain') : t('comparison.judge')}
+              </button>
+            </div>
+            {!canJudge && <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{t('comparison.needsChat')}</p>}
+            {canJudge && !verdict && !verdictError && (
+              <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{t('comparison.judgeHint', { title: activeSession.title })}</p>
+            )}
+            {verdictError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{t(`chatbot.error.${verdictError}`)}</p>}
+            {verdict && (
+              <div className="mt-3 text-gray-700 dark:text-gray-300">
+                <MarkdownText text={verdict} />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
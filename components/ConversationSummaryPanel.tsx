@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { useChat } from '../contexts/ChatContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { BookOpenIcon } from './icons/Icons';
+
+/**
+ * A collapsible panel showing the running summary that stands in for the older messages
+ * of the active conversation when the advisor replies.
+ */
+const ConversationSummaryPanel: React.FC = () => {
+  const { activeSession } = useChat();
+  const { locale, t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!activeSession) return null;
+
+  const summary = activeSession.summary;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 w-full">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between gap-2 p-4 text-left"
+      >
+        <span className="flex items-center gap-2 font-bold text-gray-800 dark:text-gray-200">
+          <BookOpenIcon className="w-5 h-5 text-primary" />
+          {t('summary.title')}
+        </span>
+        <span className="text-gray-400 text-sm">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          {summary ? (
+            <>
+              <p className="text-xs text-gray-400 dark:text-gray-500">
+                {t('summary.covers', {
+                  count: String(summary.coveredMessageCount),
+                  time: new Date(summary.updatedAt).toLocaleString(locale === 'vi' ? 'vi-VN' : 'en-US'),
+                })}
+              </p>
+              <p className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap">{summary.text}</p>
+            </>
+          ) : (
+            <p className="text-sm italic text-gray-400 dark:text-gray-500">{t('summary.empty')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationSummaryPanel;
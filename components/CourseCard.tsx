@@ -2,7 +2,12 @@ import React from 'react';
 import type { Course } from '../types';
 import { useAppSettings } from '../contexts/AppSettingsContext';
 import { useLanguage } from '../contexts/LanguageContext';
-import { BriefcaseIcon, ClockIcon, LevelIcon, HeartIcon, StarIcon } from './icons/Icons';
+import { useComparison } from '../contexts/ComparisonContext';
+import { localizeCourse } from '../services/localization';
+import { MAX_COMPARED_COURSES } from '../services/courseComparison';
+import { formatPrice, formatLanguageName, formatCourseDate, getUpcomingStartDates } from '../services/courseFormat';
+import HighlightedText from './HighlightedText';
+import { BriefcaseIcon, ClockIcon, LevelIcon, HeartIcon, StarIcon, PriceIcon, GlobeIcon, CalendarIcon, CompareIcon } from './icons/Icons';
 
 /**
  * Props for the CourseCard component.
@@ -12,6 +17,8 @@ interface CourseCardProps {
   onClick?: () => void;
   className?: string;
   isRecommended?: boolean;
+  /** Folded words from a search to highlight in the title and description. */
+  highlightTerms?: string[];
 }
 
 /**
@@ -35,16 +42,18 @@ const LevelBadge: React.FC<{level: Course['level']; label: string}> = ({ level,
 
 /**
  * A card component to display summary information about a course.
- * It includes a button to favorite the course and can display a "Recommended" badge.
- * It consumes the AppSettingsContext to manage its favorite state.
+ * It includes buttons to favorite the course and to add it to the comparison tray, and can display a "Recommended" badge.
+ * It consumes the AppSettingsContext and ComparisonContext to manage its favorite and comparison state.
  */
-const CourseCard: React.FC<CourseCardProps> = ({ course, onClick, className = '', isRecommended = false }) => {
+const CourseCard: React.FC<CourseCardProps> = ({ course, onClick, className = '', isRecommended = false, highlightTerms }) => {
   const { favorites, toggleFavorite } = useAppSettings();
-  const { locale, t } = useLanguage();
+  const { locale, t, formatDuration } = useLanguage();
+  const { comparedIds, toggleCompared, isTrayFull } = useComparison();
   const isFavorite = favorites.includes(course.id);
+  const isCompared = comparedIds.includes(course.id);
 
-  const title = locale === 'vi' && course.title_vi ? course.title_vi : course.title;
-  const description = locale === 'vi' && course.description_vi ? course.description_vi : course.description;
+  const { title, description } = localizeCourse(course, locale);
+  const nextStartDate = getUpcomingStartDates(course)[0];
 
   /**
    * Handles the click event on the favorite button.
@@ -56,7 +65,18 @@ const CourseCard: React.FC<CourseCardProps> = ({ course, onClick, className = ''
     toggleFavorite(course.id);
   };
   
+  /**
+   * Handles the click event on the compare button.
+   * Prevents the card's onClick from firing.
+   * @param e - The mouse event.
+   */
+  const handleCompareClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    toggleCompared(course.id);
+  };
+
   const favoriteLabel = isFavorite ? t('course.removeFromFavorites', { title }) : t('course.addToFavorites', { title });
+  const compareLabel = isCompared ? t('course.removeFromComparison', { title }) : t('course.addToComparison', { title });
 
   return (
     <div
@@ -73,7 +93,9 @@ const CourseCard: React.FC<CourseCardProps> = ({ course, onClick, className = ''
 
       <div className="flex-grow">
         <div className="flex justify-between items-start mb-3">
-            <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 pr-2">{title}</h3>
+            <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 pr-2">
+              <HighlightedText text={title} terms={highlightTerms} />
+            </h3>
             <button
               onClick={handleFavoriteClick}
               aria-label={favoriteLabel}
@@ -82,7 +104,9 @@ const CourseCard: React.FC<CourseCardProps> = ({ course, onClick, className = ''
               <HeartIcon className={`w-6 h-6 ${isFavorite ? 'fill-red-500 text-red-500 dark:text-red-400 dark:fill-red-400' : 'fill-transparent'}`} />
             </button>
         </div>
-        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{description}</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          <HighlightedText text={description} terms={highlightTerms} />
+        </p>
       </div>
       <div className="border-t border-gray-100 dark:border-gray-700 pt-4 mt-4 text-sm text-gray-600 dark:text-gray-300 space-y-3">
           <div className="flex items-center gap-2">
@@ -91,13 +115,51 @@ const CourseCard: React.FC<CourseCardProps> = ({ course, onClick, className = ''
           </div>
           <div className="flex items-center gap-2">
             <ClockIcon />
-            <span>{t('course.duration')}: <span className="font-semibold">{course.duration}</span></span>
+            <span>{t('course.duration')}: <span className="font-semibold">{formatDuration(course.duration)}</span></span>
           </div>
            <div className="flex items-center gap-2">
             <LevelIcon />
             <span>{t('course.level')}: <LevelBadge level={course.level} label={t(`level.${course.level}`)}/></span>
           </div>
+          {course.price && (
+            <div className="flex items-center gap-2">
+              <PriceIcon />
+              <span>{t('course.price')}: <span className="font-semibold">{course.price.amount === 0 ? t('course.free') : formatPrice(course.price, locale)}</span></span>
+            </div>
+          )}
+          {(course.deliveryMode || course.instructionLanguage) && (
+            <div className="flex items-center gap-2">
+              <GlobeIcon />
+              <span className="font-semibold">
+                {[
+                  course.deliveryMode && t(`course.deliveryMode.${course.deliveryMode}`),
+                  course.instructionLanguage && formatLanguageName(course.instructionLanguage, locale),
+                ].filter(Boolean).join(' · ')}
+              </span>
+            </div>
+          )}
+          {nextStartDate && (
+            <div className="flex items-center gap-2">
+              <CalendarIcon />
+              <span>{t('course.nextStart')}: <span className="font-semibold">{formatCourseDate(nextStartDate, locale)}</span></span>
+            </div>
+          )}
       </div>
+      <button
+        onClick={handleCompareClick}
+        disabled={!isCompared && isTrayFull}
+        aria-pressed={isCompared}
+        aria-label={compareLabel}
+        title={!isCompared && isTrayFull ? t('comparison.trayFull', { max: String(MAX_COMPARED_COURSES) }) : compareLabel}
+        className={`mt-4 flex items-center justify-center gap-2 px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+          isCompared
+            ? 'bg-primary-light text-primary-dark dark:bg-primary/20 dark:text-gray-100'
+            : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600'
+        }`}
+      >
+        <CompareIcon className="w-4 h-4" />
+        <span>{isCompared ? t('course.comparing') : t('course.compare')}</span>
+      </button>
     </div>
   );
 };
@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import type { Course } from '../types';
+import type { SimilarCourse } from '../services/courseSimilarity';
+import { useLanguage } from '../contexts/LanguageContext';
+import { resolveCourseText } from '../services/localization';
+import { ChevronLeftIcon, ChevronRightIcon } from './icons/Icons';
+
+/**
+ * Props for the CourseCarousel component.
+ */
+interface CourseCarouselProps {
+  title: string;
+  items: SimilarCourse[];
+  onSelectCourse: (course: Course) => void;
+}
+
+/**
+ * A horizontally scrolling row of compact course tiles, used for related courses in the course modal.
+ * Each tile shows the topics it shares with the course being viewed. Renders nothing when there are no items.
+ */
+const CourseCarousel: React.FC<CourseCarouselProps> = ({ title, items, onSelectCourse }) => {
+  const { locale, t, formatDuration } = useLanguage();
+  const listRef = useRef<HTMLUListElement>(null);
+
+  if (items.length === 0) return null;
+
+  /**
+   * Scrolls the row by most of its visible width.
+   * @param direction - `1` to scroll forward, `-1` to scroll back.
+   */
+  const scrollBy = (direction: 1 | -1) => {
+    const list = listRef.current;
+    if (list) list.scrollBy({ left: direction * list.clientWidth * 0.8, behavior: 'smooth' });
+  };
+
+  const arrowClassName = 'text-gray-400 hover:text-gray-600 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full p-1 transition-colors';
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-lg text-gray-700 dark:text-gray-200">{title}</h3>
+        <div className="flex gap-1">
+          <button onClick={() => scrollBy(-1)} className={arrowClassName} aria-label={t('carousel.previous')}>
+            <ChevronLeftIcon className="w-5 h-5" />
+          </button>
+          <button onClick={() => scrollBy(1)} className={arrowClassName} aria-label={t('carousel.next')}>
+            <ChevronRightIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+      <ul ref={listRef} className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-2">
+        {items.map(({ course, sharedTopics }) => (
+          <li key={course.id} className="snap-start flex-shrink-0 w-56">
+            <button
+              onClick={() => onSelectCourse(course)}
+              className="w-full h-full text-left bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700 rounded-lg p-3 hover:border-primary dark:hover:border-primary transition-colors"
+            >
+              <span className="block font-semibold text-gray-800 dark:text-gray-100 line-clamp-2">{resolveCourseText(course, 'title', locale)}</span>
+              <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {[course.provider, t(`level.${course.level}`), formatDuration(course.duration)].join(' · ')}
+              </span>
+              {sharedTopics.length > 0 && (
+                <span className="block mt-2 text-xs text-primary-dark dark:text-gray-300 truncate">
+                  {t('carousel.sharedTopics', { topics: sharedTopics.join(', ') })}
+                </span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default CourseCarousel;
@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import type { Course, CourseStatus, CourseTranslation, DeliveryMode, DurationUnit } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { validateCourseRecord, COURSE_LEVELS, DELIVERY_MODES, CatalogFieldError } from '../services/catalogValidation';
+import { COURSE_STATUSES } from '../services/catalogOverrides';
+import { DURATION_UNITS } from '../services/duration';
+import { EXPECTED_TRANSLATION_LOCALES, LOCALIZED_COURSE_FIELDS, normalizeLocaleCode } from '../services/localization';
+import { formatLanguageName } from '../services/courseFormat';
+
+/**
+ * Props for the CourseForm component.
+ */
+interface CourseFormProps {
+  /** The course to edit, or `null` to create one. */
+  course: Course | null;
+  status: CourseStatus;
+  /** The IDs already in use, which a new course may not take. */
+  existingIds: string[];
+  /** The known categories, offered as suggestions. */
+  categories: string[];
+  onSave: (course: Course, status: CourseStatus) => void;
+  onCancel: () => void;
+}
+
+type TextField = 'id' | 'title' | 'provider' | 'category' | 'instructionLanguage' | 'description' | 'longDescription';
+
+/** The text fields, in form order, with whether each takes several lines. */
+const TEXT_FIELDS: { field: TextField; multiline?: boolean }[] = [
+  { field: 'id' },
+  { field: 'title' },
+  { field: 'provider' },
+  { field: 'category' },
+  { field: 'instructionLanguage' },
+  { field: 'description', multiline: true },
+  { field: 'longDescription', multiline: true },
+];
+
+const inputClass = "w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200";
+
+/**
+ * Splits a comma-separated input into trimmed, non-empty items.
+ */
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * A form covering every field of a course, including its translations, plus its publication status.
+ * Input is checked with the same rules as the loaded catalog before it is saved.
+ */
+const CourseForm: React.FC<CourseFormProps> = ({ course, status, existingIds, categories, onSave, onCancel }) => {
+  const { locale, t } = useLanguage();
+  const [values, setValues] = useState<Record<TextField, string>>(() => {
+    const initial = {} as Record<TextField, string>;
+    TEXT_FIELDS.forEach(({ field }) => {
+      initial[field] = course?.[field] ?? '';
+    });
+    return initial;
+  });
+  const [level, setLevel] = useState<Course['level']>(course?.level ?? 'Beginner');
+  const [topics, setTopics] = useState(course?.topics.join(', ') ?? '');
+  const [durationAmount, setDurationAmount] = useState(course ? String(course.duration.amount) : '');
+  const [durationUnit, setDurationUnit] = useState<DurationUnit>(course?.duration.unit ?? 'week');
+  const [hoursPerWeek, setHoursPerWeek] = useState(course?.duration.hoursPerWeek ? String(course.duration.hoursPerWeek) : '');
+  const [priceAmount, setPriceAmount] = useState(course?.price ? String(course.price.amount) : '');
+  const [currency, setCurrency] = useState(course?.price?.currency ?? 'VND');
+  const [deliveryMode, setDeliveryMode] = useState<DeliveryMode | ''>(course?.deliveryMode ?? '');
+  const [startDates, setStartDates] = useState(course?.startDates?.join(', ') ?? '');
+  const [prerequisites, setPrerequisites] = useState(course?.prerequisites?.join(', ') ?? '');
+  const [translations, setTranslations] = useState<Record<string, CourseTranslation>>(() => {
+    const initial: Record<string, CourseTranslation> = {};
+    EXPECTED_TRANSLATION_LOCALES.forEach(code => { initial[code] = {}; });
+    return { ...initial, ...course?.translations };
+  });
+  const [newLocale, setNewLocale] = useState('');
+  const [courseStatus, setCourseStatus] = useState<CourseStatus>(status);
+  const [errors, setErrors] = useState<CatalogFieldError[]>([]);
+
+  const errorFor = (field: CatalogFieldError['field']) => errors.find(error => error.field === field)?.message;
+
+  /**
+   * Validates the form and saves the course if it is valid.
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const record = {
+      ...values,
+      level,
+      duration: { amount: durationAmount, unit: durationUnit, hoursPerWeek: hoursPerWeek.trim() || undefined },
+      topics: splitList(topics),
+      price: priceAmount.trim() ? { amount: priceAmount, currency } : undefined,
+      deliveryMode: deliveryMode || undefined,
+      startDates: splitList(startDates),
+      prerequisites: splitList(prerequisites),
+      translations,
+    };
+    const result = validateCourseRecord(record, 0);
+    const fieldErrors = [...result.errors];
+    if (!course && result.course && existingIds.includes(result.course.id)) {
+      fieldErrors.push({ index: 0, courseId: result.course.id, field: 'id', message: t('admin.form.duplicateId') });
+    }
+    if (result.course && result.course.topics.length === 0) {
+      fieldErrors.push({ index: 0, courseId: result.course.id, field: 'topics', message: t('admin.form.topicsRequired') });
+    }
+    const unknownPrerequisites = result.course?.prerequisites?.filter(id => !existingIds.includes(id)) ?? [];
+    if (unknownPrerequisites.length) {
+      fieldErrors.push({ index: 0, field: 'prerequisites', message: t('admin.form.unknownPrerequisites', { ids: unknownPrerequisites.join(', ') }) });
+    }
+
+    setErrors(fieldErrors);
+    if (fieldErrors.length === 0 && result.course) {
+      onSave(result.course, courseStatus);
+    }
+  };
+
+  /**
+   * Adds an empty translation section for the locale typed in, if it is valid and not there yet.
+   */
+  const handleAddLocale = () => {
+    const code = normalizeLocaleCode(newLocale);
+    if (!code) return;
+    setTranslations(prev => (prev[code] ? prev : { ...prev, [code]: {} }));
+    setNewLocale('');
+  };
+
+  const renderError = (field: CatalogFieldError['field']) => {
+    const message = errorFor(field);
+    return message ? <p className="mt-1 text-xs text-red-600 dark:text-red-400">{message}</p> : null;
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-4" noValidate>
+      <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">
+        {course ? t('admin.form.editTitle', { id: course.id }) : t('admin.form.createTitle')}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {TEXT_FIELDS.map(({ field, multiline }) => (
+          <label key={field} className={`block text-sm ${multiline ? 'md:col-span-2' : ''}`}>
+            <span className="font-medium text-gray-700 dark:text-gray-300">{t(`admin.field.${field}`)}</span>
+            {multiline ? (
+              <textarea
+                value={values[field]}
+                onChange={e => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                rows={field.startsWith('longDescription') ? 4 : 2}
+                className={`mt-1 ${inputClass}`}
+              />
+            ) : (
+              <input
+                type="text"
+                value={values[field]}
+                onChange={e => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                readOnly={field === 'id' && !!course}
+                list={field === 'category' ? 'course-form-categories' : undefined}
+                className={`mt-1 ${inputClass} read-only:opacity-60`}
+              />
+            )}
+            {renderError(field)}
+          </label>
+        ))}
+
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{t('admin.field.level')}</span>
+          <select value={level} onChange={e => setLevel(e.target.value as Course['level'])} className={`mt-1 ${inputClass}`}>
+            {COURSE_LEVELS.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+          {renderError('level')}
+        </label>
+
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{t('admin.field.status')}</span>
+          <select value={courseStatus} onChange={e => setCourseStatus(e.target.value as CourseStatus)} className={`mt-1 ${inputClass}`}>
+            {COURSE_STATUSES.map(option => <option key={option} value={option}>{t(`admin.status.${option}`)}</option>)}
+          </select>
+        </label>
+
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{t('admin.field.deliveryMode')}</span>
+          <select value={deliveryMode} onChange={e => setDeliveryMode(e.target.value as DeliveryMode | '')} className={`mt-1 ${inputClass}`}>
+            <option value="">{t('admin.form.notSet')}</option>
+            {DELIVERY_MODES.map(option => <option key={option} value={option}>{t(`course.deliveryMode.${option}`)}</option>)}
+          </select>
+          {renderError('deliveryMode')}
+        </label>
+
+        <div className="block text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{t('admin.field.duration')}</span>
+          <div className="mt-1 flex gap-2">
+            <input type="number" min={1} value={durationAmount} onChange={e => setDurationAmount(e.target.value)} className={inputClass} aria-label={t('admin.field.duration')} />
+            <select value={durationUnit} onChange={e => setDurationUnit(e.target.value as DurationUnit)} className={`${inputClass} w-32`} aria-label={t('admin.field.durationUnit')}>
+              {DURATION_UNITS.map(unit => <option key={unit} value={unit}>{t(`admin.durationUnit.${unit}`)}</option>)}
+            </select>
+            <input type="number" min={1} value={hoursPerWeek} onChange={e => setHoursPerWeek(e.target.value)} placeholder={t('admin.field.hoursPerWeek')} className={`${inputClass} w-32`} aria-label={t('admin.field.hoursPerWeek')} />
+          </div>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t('admin.form.hoursPerWeekHint')}</span>
+          {renderError('duration')}
+        </div>
+
+        <div className="block text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{t('admin.field.price')}</span>
+          <div className="mt-1 flex gap-2">
+            <input type="number" min={0} value={priceAmount} onChange={e => setPriceAmount(e.target.value)} className={inputClass} aria-label={t('admin.field.price')} />
+            <input type="text" value={currency} onChange={e => setCurrency(e.target.value)} className={`${inputClass} w-24`} aria-label={t('admin.field.currency')} />
+          </div>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t('admin.form.priceHint')}</span>
+          {renderError('price')}
+        </div>
+
+        <label className="block text-sm md:col-span-2">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{t('admin.field.topics')}</span>
+          <input type="text" value={topics} onChange={e => setTopics(e.target.value)} className={`mt-1 ${inputClass}`} />
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t('admin.form.topicsHint')}</span>
+          {renderError('topics')}
+        </label>
+
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{t('admin.field.startDates')}</span>
+          <input type="text" value={startDates} onChange={e => setStartDates(e.target.value)} placeholder="2026-11-03, 2027-01-12" className={`mt-1 ${inputClass}`} />
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t('admin.form.startDatesHint')}</span>
+          {renderError('startDates')}
+        </label>
+
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700 dark:text-gray-300">{t('admin.field.prerequisites')}</span>
+          <input type="text" value={prerequisites} onChange={e => setPrerequisites(e.target.value)} className={`mt-1 ${inputClass}`} />
+          <span className="text-xs text-gray-500 dark:text-gray-400">{t('admin.form.prerequisitesHint')}</span>
+          {renderError('prerequisites')}
+        </label>
+      </div>
+
+      <div className="space-y-4">
+        {Object.keys(translations).sort().map(code => (
+          <fieldset key={code} className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+            <legend className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+              {t('admin.form.translationTitle', { language: formatLanguageName(code, locale), code })}
+            </legend>
+            {LOCALIZED_COURSE_FIELDS.map(field => (
+              <label key={field} className={`block text-sm ${field === 'title' ? '' : 'md:col-span-2'}`}>
+                <span className="font-medium text-gray-700 dark:text-gray-300">{t(`admin.field.${field}`)}</span>
+                {field === 'title' ? (
+                  <input
+                    type="text"
+                    value={translations[code][field] ?? ''}
+                    onChange={e => setTranslations(prev => ({ ...prev, [code]: { ...prev[code], [field]: e.target.value } }))}
+                    className={`mt-1 ${inputClass}`}
+                  />
+                ) : (
+                  <textarea
+                    value={translations[code][field] ?? ''}
+                    onChange={e => setTranslations(prev => ({ ...prev, [code]: { ...prev[code], [field]: e.target.value } }))}
+                    rows={field === 'longDescription' ? 4 : 2}
+                    className={`mt-1 ${inputClass}`}
+                  />
+                )}
+              </label>
+            ))}
+          </fieldset>
+        ))}
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            type="text"
+            value={newLocale}
+            onChange={e => setNewLocale(e.target.value)}
+            placeholder="fr"
+            className={`${inputClass} w-24`}
+            aria-label={t('admin.form.translationLocale')}
+          />
+          <button type="button" onClick={handleAddLocale} className="px-3 py-2 font-semibold rounded-lg bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600">
+            {t('admin.form.addTranslation')}
+          </button>
+        </div>
+        {renderError('translations')}
+      </div>
+
+      <datalist id="course-form-categories">
+        {categories.map(category => <option key={category} value={category} />)}
+      </datalist>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-semibold rounded-lg bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600">
+          {t('admin.form.cancel')}
+        </button>
+        <button type="submit" className="px-4 py-2 text-sm font-semibold text-white bg-primary hover:bg-primary-hover rounded-lg">
+          {t('admin.form.save')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default CourseForm;
@@ -1,8 +1,14 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import type { Course } from '../types';
 import { useAppSettings } from '../contexts/AppSettingsContext';
 import { useLanguage } from '../contexts/LanguageContext';
-import { XIcon, CheckCircleIcon, BookOpenIcon, TagIcon, BriefcaseIcon, ClockIcon, LevelIcon, HeartIcon } from './icons/Icons';
+import { useCatalog } from '../contexts/CatalogContext';
+import { useRecommendations } from '../contexts/RecommendationContext';
+import { formatPrice, formatLanguageName, formatCourseDate, getUpcomingStartDates } from '../services/courseFormat';
+import { localizeCourse, resolveCourseText } from '../services/localization';
+import { buildSimilarityIndex, findNextStepCourses, findSimilarCourses } from '../services/courseSimilarity';
+import CourseCarousel from './CourseCarousel';
+import { XIcon, ChevronLeftIcon, CheckCircleIcon, BookOpenIcon, TagIcon, BriefcaseIcon, ClockIcon, LevelIcon, HeartIcon, PriceIcon, GlobeIcon, CalendarIcon } from './icons/Icons';
 
 /**
  * Props for the CourseModal component.
@@ -14,22 +20,57 @@ interface CourseModalProps {
   analysis?: string | undefined;
 }
 
+/**
+ * How many courses each related-courses carousel shows.
+ */
+const RELATED_COURSE_LIMIT = 8;
+
 /**
  * A modal dialog to display detailed information about a course.
  * It also shows the AI's reasoning if the course was recommended.
  * It includes a button to add/remove the course from favorites.
+ * Carousels of similar courses and next steps open those courses in the same modal, with a back button to retrace the way.
  */
-const CourseModal: React.FC<CourseModalProps> = ({ isOpen, onClose, course, analysis }) => {
+const CourseModal: React.FC<CourseModalProps> = ({ isOpen, onClose, course: openedCourse, analysis: openedAnalysis }) => {
   const { favorites, toggleFavorite } = useAppSettings();
-  const { locale, t } = useLanguage();
+  const { locale, t, formatDuration } = useLanguage();
+  const { courses, entries } = useCatalog();
+  const { recommendations } = useRecommendations();
+  const [trail, setTrail] = useState<Course[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const similarityIndex = useMemo(() => buildSimilarityIndex(courses), [courses]);
+
+  // Start from the opened course whenever the modal is opened anew
+  useEffect(() => {
+    setTrail([]);
+  }, [isOpen, openedCourse]);
 
-  if (!isOpen || !course) return null;
-  
+  // Show each course from the top, like a new page
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [trail]);
+
+  if (!isOpen || !openedCourse) return null;
+
+  const course = trail[trail.length - 1] ?? openedCourse;
+  const analysis = trail.length ? recommendations.find(r => r.courseId === course.id)?.reasoning : openedAnalysis;
   const isFavorite = favorites.includes(course.id);
 
-  const title = locale === 'vi' && course.title_vi ? course.title_vi : course.title;
-  const longDescription = locale === 'vi' && course.longDescription_vi ? course.longDescription_vi : course.longDescription;
+  const { title, longDescription } = localizeCourse(course, locale);
   const favoriteLabel = isFavorite ? t('course.removeFromFavorites', { title }) : t('course.addToFavorites', { title });
+  const upcomingStartDates = getUpcomingStartDates(course);
+  const prerequisites = (course.prerequisites ?? []).map(id => {
+    const prerequisite = entries.find(entry => entry.course.id === id)?.course;
+    return { id, title: prerequisite ? resolveCourseText(prerequisite, 'title', locale) : id };
+  });
+
+  // A course offered as a next step is not repeated among the similar ones
+  const nextSteps = findNextStepCourses(similarityIndex, course.id, RELATED_COURSE_LIMIT);
+  const similarCourses = findSimilarCourses(similarityIndex, course.id, RELATED_COURSE_LIMIT + nextSteps.length)
+    .filter(similar => !nextSteps.some(next => next.course.id === similar.course.id))
+    .slice(0, RELATED_COURSE_LIMIT);
+  const exploreCourse = (next: Course) => setTrail(prevTrail => [...prevTrail, next]);
 
   return (
     <div
@@ -40,10 +81,20 @@ const CourseModal: React.FC<CourseModalProps> = ({ isOpen, onClose, course, anal
       aria-labelledby="course-modal-title"
     >
       <div
+        ref={scrollRef}
         className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-95 opacity-0 animate-scale-in"
         onClick={(e) => e.stopPropagation()}
       >
         <div className="p-6 md:p-8">
+            {trail.length > 0 && (
+              <button
+                onClick={() => setTrail(prevTrail => prevTrail.slice(0, -1))}
+                className="flex items-center gap-1 mb-3 text-sm font-semibold text-primary hover:underline"
+              >
+                <ChevronLeftIcon className="w-4 h-4" />
+                {t('modal.back', { title: resolveCourseText(trail[trail.length - 2] ?? openedCourse, 'title', locale) })}
+              </button>
+            )}
             <div className="flex justify-between items-start mb-4">
                 <h2 id="course-modal-title" className="text-2xl md:text-3xl font-bold text-gray-800 dark:text-gray-100">{title}</h2>
                 <button
@@ -57,8 +108,17 @@ const CourseModal: React.FC<CourseModalProps> = ({ isOpen, onClose, course, anal
 
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6 text-sm">
                 <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300"><BriefcaseIcon /> <span className="font-medium">{course.provider}</span></div>
-                <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300"><ClockIcon /> <span className="font-medium">{course.duration}</span></div>
+                <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300"><ClockIcon /> <span className="font-medium">{formatDuration(course.duration)}</span></div>
                 <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300"><LevelIcon /> <span className="font-medium">{t(`level.${course.level}`)}</span></div>
+                {course.price && (
+                  <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300"><PriceIcon /> <span className="font-medium">{course.price.amount === 0 ? t('course.free') : formatPrice(course.price, locale)}</span></div>
+                )}
+                {course.deliveryMode && (
+                  <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300"><GlobeIcon /> <span className="font-medium">{t(`course.deliveryMode.${course.deliveryMode}`)}</span></div>
+                )}
+                {course.instructionLanguage && (
+                  <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300"><GlobeIcon /> <span className="font-medium">{t('course.taughtIn', { language: formatLanguageName(course.instructionLanguage, locale) })}</span></div>
+                )}
             </div>
 
             {analysis && (
@@ -86,7 +146,38 @@ const CourseModal: React.FC<CourseModalProps> = ({ isOpen, onClose, course, anal
                         ))}
                     </div>
                 </div>
+                {course.startDates && (
+                  <div>
+                    <h3 className="font-semibold text-lg text-gray-700 dark:text-gray-200 flex items-center gap-2 mb-2"><CalendarIcon /> {t('modal.startDatesTitle')}</h3>
+                    {upcomingStartDates.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {upcomingStartDates.map(date => (
+                          <span key={date} className="bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-3 py-1 rounded-full text-sm font-medium">{formatCourseDate(date, locale)}</span>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-gray-600 dark:text-gray-400">{t('modal.noUpcomingStartDates')}</p>
+                    )}
+                  </div>
+                )}
+                {prerequisites.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold text-lg text-gray-700 dark:text-gray-200 flex items-center gap-2 mb-2"><CheckCircleIcon className="h-5 w-5" /> {t('modal.prerequisitesTitle')}</h3>
+                    <ul className="list-disc list-inside text-gray-600 dark:text-gray-400">
+                      {prerequisites.map(prerequisite => (
+                        <li key={prerequisite.id}>{prerequisite.title} <span className="font-mono text-xs text-gray-400">({prerequisite.id})</span></li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
             </div>
+
+            {(similarCourses.length > 0 || nextSteps.length > 0) && (
+              <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700 space-y-6">
+                <CourseCarousel title={t('modal.nextStepsTitle')} items={nextSteps} onSelectCourse={exploreCourse} />
+                <CourseCarousel title={t('modal.similarTitle')} items={similarCourses} onSelectCourse={exploreCourse} />
+              </div>
+            )}
             
             <div className="mt-8 flex justify-between items-center">
                 <button
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+
+/**
+ * One value of a facet with how many courses it would show.
+ */
+export interface FacetOption {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Props for the FacetGroup component.
+ */
+interface FacetGroupProps {
+  title: string;
+  options: FacetOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  /** How many options to show before a "show all" toggle. Shows every option if left out. */
+  collapsedLimit?: number;
+}
+
+/**
+ * A titled list of checkboxes for one catalog facet, each with its live result count.
+ * Options that would show nothing are dimmed but stay listed while selected, so they can be cleared.
+ */
+const FacetGroup: React.FC<FacetGroupProps> = ({ title, options, selected, onToggle, collapsedLimit }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { t } = useLanguage();
+
+  const isCollapsible = collapsedLimit !== undefined && options.length > collapsedLimit;
+  const visibleOptions = isCollapsible && !isExpanded
+    ? options.filter((option, index) => index < collapsedLimit || selected.includes(option.value))
+    : options;
+
+  return (
+    <fieldset className="mb-6">
+      <legend className="mb-2 text-sm font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-300">{title}</legend>
+      <ul className="space-y-1">
+        {visibleOptions.map(({ value, label, count }) => {
+          const isSelected = selected.includes(value);
+          return (
+            <li key={value}>
+              <label className={`flex items-center gap-2 text-sm cursor-pointer ${count === 0 && !isSelected ? 'text-gray-400 dark:text-gray-500' : 'text-gray-700 dark:text-gray-200'}`}>
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  onChange={() => onToggle(value)}
+                  className="rounded border-gray-300 dark:border-gray-600 text-primary focus:ring-primary"
+                />
+                <span className="flex-grow">{label}</span>
+                <span className="text-xs text-gray-400 dark:text-gray-500">{count}</span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+      {isCollapsible && (
+        <button
+          type="button"
+          onClick={() => setIsExpanded(expanded => !expanded)}
+          className="mt-2 text-sm font-medium text-primary hover:underline"
+        >
+          {isExpanded ? t('courses.facet.showFewer') : t('courses.facet.showAll', { count: String(options.length) })}
+        </button>
+      )}
+    </fieldset>
+  );
+};
+
+export default FacetGroup;
@@ -1,7 +1,8 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
 import { useLanguage } from '../contexts/LanguageContext';
-import { ChatIcon, BookOpenIcon, HeartIcon, SettingsIcon } from './icons/Icons';
+import { CATALOG_ADMIN_ENABLED } from '../services/catalogOverrides';
+import { ChatIcon, BookOpenIcon, HeartIcon, SettingsIcon, PencilIcon } from './icons/Icons';
 
 /**
  * The main header component for the application.
@@ -51,6 +52,15 @@ const Header: React.FC = () => {
               <SettingsIcon className="h-5 w-5" />
               <span className="hidden md:inline">{t('header.settings')}</span>
             </NavLink>
+            {CATALOG_ADMIN_ENABLED && (
+              <NavLink
+                to="/admin/catalog"
+                className={({ isActive }) => `${linkBaseClass} ${isActive ? activeLinkClass : inactiveLinkClass}`}
+              >
+                <PencilIcon className="h-5 w-5" />
+                <span className="hidden md:inline">{t('header.admin')}</span>
+              </NavLink>
+            )}
         </div>
         <div className="flex items-center gap-2">
             <button className="px-4 py-2 text-sm font-semibold text-gray-800 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg">
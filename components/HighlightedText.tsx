@@ -0,0 +1,36 @@
+import React from 'react';
+import { foldText } from '../services/text';
+
+/**
+ * Props for the HighlightedText component.
+ */
+interface HighlightedTextProps {
+  text: string;
+  /** Folded words to highlight, as returned in a search result's `matchedTerms`. */
+  terms?: string[];
+}
+
+/**
+ * Renders text with every word that matches one of the terms marked, ignoring case and diacritics.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  if (!terms?.length) return <>{text}</>;
+
+  const termSet = new Set(terms);
+  // Splitting on a captured group keeps the words at the odd indices.
+  const parts = text.split(/([\p{L}\p{M}\p{N}]+)/u);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 && termSet.has(foldText(part)) ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm px-0.5">{part}</mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import type { LearnerProfileField } from '../types';
+import { useChat } from '../contexts/ChatContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { LEARNER_PROFILE_FIELDS, applyProfileCorrection } from '../services/learnerProfile';
+import { PencilIcon, UserIcon } from './icons/Icons';
+
+/**
+ * Props for the LearnerProfilePanel component.
+ */
+interface LearnerProfilePanelProps {
+  /** Whether the panel starts expanded. Defaults to true. */
+  defaultOpen?: boolean;
+}
+
+/**
+ * A collapsible panel showing the learner profile extracted from the active conversation.
+ * The user can correct any field; corrections are sent to the advisor with the next message
+ * and are never overwritten by the model.
+ */
+const LearnerProfilePanel: React.FC<LearnerProfilePanelProps> = ({ defaultOpen = true }) => {
+  const { activeSession, updateSession } = useChat();
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [editingField, setEditingField] = useState<LearnerProfileField | null>(null);
+  const [draftValue, setDraftValue] = useState('');
+
+  if (!activeSession) return null;
+
+  const profile = activeSession.profile ?? {};
+  const userEditedFields = profile.userEditedFields ?? [];
+
+  const handleEdit = (field: LearnerProfileField) => {
+    setEditingField(field);
+    setDraftValue(profile[field] ?? '');
+  };
+
+  const handleSave = (field: LearnerProfileField) => {
+    if (draftValue.trim() !== (profile[field] ?? '')) {
+      updateSession(activeSession.id, { profile: applyProfileCorrection(profile, field, draftValue) });
+    }
+    setEditingField(null);
+    setDraftValue('');
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 w-full">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center justify-between gap-2 p-4 text-left"
+      >
+        <span className="flex items-center gap-2 font-bold text-gray-800 dark:text-gray-200">
+          <UserIcon className="w-5 h-5 text-primary" />
+          {t('profile.title')}
+        </span>
+        <span className="text-gray-400 text-sm">{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <p className="text-xs text-gray-400 dark:text-gray-500">{t('profile.hint')}</p>
+          <dl className="space-y-2">
+            {LEARNER_PROFILE_FIELDS.map(field => (
+              <div key={field} className="group">
+                <dt className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 flex items-center gap-2">
+                  {t(`profile.field.${field}`)}
+                  {userEditedFields.includes(field) && (
+                    <span className="normal-case font-normal tracking-normal text-primary">{t('profile.editedByYou')}</span>
+                  )}
+                </dt>
+                <dd className="text-sm text-gray-800 dark:text-gray-200">
+                  {editingField === field ? (
+                    <input
+                      type="text"
+                      value={draftValue}
+                      onChange={(e) => setDraftValue(e.target.value)}
+                      onBlur={() => handleSave(field)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSave(field)}
+                      aria-label={t(`profile.field.${field}`)}
+                      className="w-full bg-transparent border-b border-primary focus:outline-none"
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      onClick={() => handleEdit(field)}
+                      className="w-full flex items-start justify-between gap-2 text-left hover:text-primary"
+                    >
+                      <span className={profile[field] ? '' : 'italic text-gray-400 dark:text-gray-500'}>
+                        {profile[field] || t('profile.empty')}
+                      </span>
+                      <PencilIcon className="w-3 h-3 mt-1 flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity" />
+                    </button>
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearnerProfilePanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { Course, LearningPath } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { resolveCourseText } from '../services/localization';
+import { ClockIcon } from './icons/Icons';
+
+/**
+ * Props for the LearningPathTimeline component.
+ */
+interface LearningPathTimelineProps {
+  path: LearningPath;
+  onSelectCourse: (course: Course, analysis?: string) => void;
+}
+
+/**
+ * Shows a learning path as a vertical timeline: one numbered step per course, in the order to take them,
+ * with the estimated total time at the top. Selecting a step opens the course.
+ */
+const LearningPathTimeline: React.FC<LearningPathTimelineProps> = ({ path, onSelectCourse }) => {
+  const { locale, t, formatDuration, formatDurationTotal } = useLanguage();
+
+  return (
+    <div className="w-full mt-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-4 shadow-sm">
+      <div className="mb-4">
+        <p className="text-xs font-semibold uppercase tracking-wide text-primary">{t('learningPath.title')}</p>
+        <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100">{path.goal}</h3>
+        <p className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+          <ClockIcon />
+          {t('learningPath.total', {
+            count: String(path.steps.length),
+            duration: formatDurationTotal({ weeks: path.totalWeeks, hours: path.totalHours }),
+          })}
+        </p>
+      </div>
+
+      <ol className="relative border-l-2 border-primary/30 ml-3">
+        {path.steps.map(({ course, reasoning, addedAsPrerequisite }, index) => {
+          const title = resolveCourseText(course, 'title', locale);
+          return (
+            <li key={course.id} className="mb-4 last:mb-0 ml-6">
+              <span className="absolute -left-[13px] flex items-center justify-center w-6 h-6 rounded-full bg-primary text-white text-xs font-bold">
+                {index + 1}
+              </span>
+              <button
+                type="button"
+                onClick={() => onSelectCourse(course, reasoning)}
+                className="w-full text-left p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-gray-800 dark:text-gray-100">{title}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{t(`level.${course.level}`)} · {formatDuration(course.duration)}</span>
+                  {addedAsPrerequisite && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200">
+                      {t('learningPath.addedPrerequisite')}
+                    </span>
+                  )}
+                </div>
+                {reasoning && <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">{reasoning}</p>}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default LearningPathTimeline;
@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+import type { Course } from '../types';
+import { parseMarkdown, MarkdownBlock, MarkdownInline, MarkdownAlignment } from '../services/markdown';
+import { buildCourseMentionFinder, CourseMentionFinder } from '../services/courseMentions';
+
+/**
+ * Props for the MarkdownText component.
+ */
+interface MarkdownTextProps {
+  /** The Markdown to render. */
+  text: string;
+  /** The courses whose IDs and titles become links when mentioned. */
+  courses?: Course[];
+  /** Called when a linked course mention is clicked. Mentions are not linked without it. */
+  onSelectCourse?: (course: Course) => void;
+  /** Shown at the end of the last line, such as the cursor of a reply still being written. */
+  trailing?: React.ReactNode;
+}
+
+const ALIGN_CLASSES: Record<Exclude<MarkdownAlignment, null>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'font-semibold'];
+
+/**
+ * Renders the Markdown the advisor writes, from a parsed syntax tree rather than HTML, so nothing in a reply can run
+ * as markup. Links open in a new tab, and course IDs and titles mentioned in the text open the course instead.
+ */
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, courses, onSelectCourse, trailing }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  const mentionFinder = useMemo<CourseMentionFinder | null>(() => (courses?.length ? buildCourseMentionFinder(courses) : null), [courses]);
+  const findMentions = onSelectCourse ? mentionFinder : null;
+
+  /**
+   * Renders plain text, turning course mentions into buttons.
+   */
+  const renderText = (value: string, key: string): React.ReactNode => {
+    if (!findMentions) return <React.Fragment key={key}>{value}</React.Fragment>;
+    return findMentions(value).map((segment, index) => segment.course ? (
+      <button
+        key={`${key}-${index}`}
+        type="button"
+        onClick={() => onSelectCourse!(segment.course!)}
+        className="font-medium text-primary dark:text-primary-light underline decoration-dotted underline-offset-2 hover:decoration-solid"
+      >
+        {segment.text}
+      </button>
+    ) : (
+      <React.Fragment key={`${key}-${index}`}>{segment.text}</React.Fragment>
+    ));
+  };
+
+  /**
+   * Renders inline nodes. Course mentions are not linked inside links, whose text already leads somewhere.
+   */
+  const renderInlines = (nodes: MarkdownInline[], key: string, inLink = false): React.ReactNode[] => nodes.map((node, index) => {
+    const childKey = `${key}-${index}`;
+    switch (node.type) {
+      case 'text':
+        return inLink ? <React.Fragment key={childKey}>{node.text}</React.Fragment> : renderText(node.text, childKey);
+      case 'strong':
+        return <strong key={childKey} className="font-semibold">{renderInlines(node.children, childKey, inLink)}</strong>;
+      case 'emphasis':
+        return <em key={childKey}>{renderInlines(node.children, childKey, inLink)}</em>;
+      case 'strikethrough':
+        return <del key={childKey}>{renderInlines(node.children, childKey, inLink)}</del>;
+      case 'code':
+        return <code key={childKey} className="px-1 py-0.5 rounded bg-gray-200/70 dark:bg-gray-800 font-mono text-sm">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={childKey} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary dark:text-primary-light underline break-words">
+            {renderInlines(node.children, childKey, true)}
+          </a>
+        );
+      case 'break':
+        return <br key={childKey} />;
+    }
+  });
+
+  /**
+   * Renders blocks, adding `tail` to the end of the last one.
+   */
+  const renderBlocks = (items: MarkdownBlock[], key: string, tail?: React.ReactNode): React.ReactNode[] => items.map((block, index) => {
+    const childKey = `${key}-${index}`;
+    const blockTail = index === items.length - 1 ? tail : undefined;
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={childKey}>{renderInlines(block.children, childKey)}{blockTail}</p>;
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3';
+        return <Tag key={childKey} className={HEADING_CLASSES[Math.min(block.level, 3) - 1]}>{renderInlines(block.children, childKey)}{blockTail}</Tag>;
+      }
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag key={childKey} start={block.ordered ? block.start : undefined} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="space-y-1">
+                {renderBlocks(item, `${childKey}-${itemIndex}`, itemIndex === block.items.length - 1 ? blockTail : undefined)}
+              </li>
+            ))}
+          </ListTag>
+        );
+      }
+      case 'table':
+        return (
+          <div key={childKey} className="overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th key={column} className={`px-2 py-1 border-b border-gray-300 dark:border-gray-600 font-semibold ${ALIGN_CLASSES[block.align[column] ?? 'left']}`}>
+                      {renderInlines(cell, `${childKey}-h${column}`)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-gray-200 dark:border-gray-600 last:border-0">
+                    {row.map((cell, column) => (
+                      <td key={column} className={`px-2 py-1 align-top ${ALIGN_CLASSES[block.align[column] ?? 'left']}`}>
+                        {renderInlines(cell, `${childKey}-${rowIndex}-${column}`)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {blockTail}
+          </div>
+        );
+      case 'code':
+        return (
+          <pre key={childKey} className="p-3 rounded-lg bg-gray-200/70 dark:bg-gray-800 overflow-x-auto text-sm">
+            <code className="font-mono">{block.text}</code>
+            {blockTail}
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={childKey} className="pl-3 border-l-4 border-gray-300 dark:border-gray-500 text-gray-600 dark:text-gray-300 space-y-2">
+            {renderBlocks(block.children, childKey, blockTail)}
+          </blockquote>
+        );
+      case 'rule':
+        return <React.Fragment key={childKey}><hr className="border-gray-300 dark:border-gray-600" />{blockTail}</React.Fragment>;
+    }
+  });
+
+  return (
+    <div className="space-y-2 break-words">
+      {blocks.length ? renderBlocks(blocks, 'md', trailing) : trailing}
+    </div>
+  );
+};
+
+export default MarkdownText;
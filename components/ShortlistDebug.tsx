@@ -0,0 +1,48 @@
+import React from 'react';
+import type { Course, RetrievalMatch } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+
+/**
+ * Props for the ShortlistDebug component.
+ */
+interface ShortlistDebugProps {
+  matches: RetrievalMatch[];
+  courses: Course[];
+}
+
+/**
+ * A collapsible debug view listing the courses the retrieval step passed to the model for a reply,
+ * with their scores and the conversation terms that matched.
+ */
+const ShortlistDebug: React.FC<ShortlistDebugProps> = ({ matches, courses }) => {
+  const { t } = useLanguage();
+
+  return (
+    <details className="w-full text-xs text-gray-500 dark:text-gray-400">
+      <summary className="cursor-pointer select-none">{t('debug.shortlistTitle', { count: String(matches.length) })}</summary>
+      <table className="mt-2 w-full text-left">
+        <thead>
+          <tr className="border-b border-gray-200 dark:border-gray-700">
+            <th className="py-1 pr-2 font-semibold">{t('debug.course')}</th>
+            <th className="py-1 pr-2 font-semibold">{t('debug.score')}</th>
+            <th className="py-1 font-semibold">{t('debug.matchedTerms')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {matches.map(match => {
+            const course = courses.find(c => c.id === match.courseId);
+            return (
+              <tr key={match.courseId} className="border-b border-gray-100 dark:border-gray-700/50">
+                <td className="py-1 pr-2"><span className="font-mono">{match.courseId}</span> {course?.title}</td>
+                <td className="py-1 pr-2">{match.score}</td>
+                <td className="py-1">{match.matchedTerms.length ? match.matchedTerms.join(', ') : <em>{t('debug.filler')}</em>}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </details>
+  );
+};
+
+export default ShortlistDebug;
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { ToolTraceEntry } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+
+/**
+ * Props for the ToolTrace component.
+ */
+interface ToolTraceProps {
+  entries: ToolTraceEntry[];
+}
+
+/**
+ * Lists the catalog tool calls behind an AI reply, e.g. "Searched the catalog for “python”",
+ * so advisors can audit how a recommendation was reached.
+ */
+const ToolTrace: React.FC<ToolTraceProps> = ({ entries }) => {
+  const { t } = useLanguage();
+
+  /**
+   * Describes one tool call in the user's language.
+   */
+  const describe = ({ tool, args, resultCount }: ToolTraceEntry): string => {
+    const count = String(resultCount);
+    switch (tool) {
+      case 'searchCourses': {
+        const filters = [args.level, args.category].filter(value => typeof value === 'string' && value).join(', ');
+        return t(filters ? 'tools.trace.searchCoursesFiltered' : 'tools.trace.searchCourses', {
+          query: String(args.query ?? ''),
+          filters,
+          count,
+        });
+      }
+      case 'getCourseDetails':
+        return t('tools.trace.getCourseDetails', { id: String(args.id ?? '') });
+      case 'listCategories':
+        return t('tools.trace.listCategories', { count });
+      case 'compareCourses':
+        return t('tools.trace.compareCourses', { ids: Array.isArray(args.ids) ? args.ids.join(', ') : '' });
+    }
+  };
+
+  return (
+    <div className="w-full text-xs text-gray-500 dark:text-gray-400">
+      <p className="font-semibold">{t('tools.trace.title')}</p>
+      <ol className="mt-1 space-y-0.5 list-decimal list-inside">
+        {entries.map((entry, index) => (
+          <li key={index}>{describe(entry)}</li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ToolTrace;
@@ -0,0 +1,66 @@
+import React, { useMemo } from 'react';
+import type { Course } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatLanguageName } from '../services/courseFormat';
+import { getTranslationCoverage } from '../services/localization';
+
+/**
+ * Props for the TranslationCoverageReport component.
+ */
+interface TranslationCoverageReportProps {
+  courses: Course[];
+  onEditCourse: (course: Course) => void;
+}
+
+/**
+ * Shows, for each locale the catalog is or should be translated into, how many courses are fully translated
+ * and which courses are missing which fields. Selecting a course opens it for editing.
+ */
+const TranslationCoverageReport: React.FC<TranslationCoverageReportProps> = ({ courses, onEditCourse }) => {
+  const { locale, t } = useLanguage();
+  const coverage = useMemo(() => getTranslationCoverage(courses), [courses]);
+
+  return (
+    <details className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-4">
+      <summary className="cursor-pointer select-none font-semibold text-gray-700 dark:text-gray-200">{t('admin.coverage.title')}</summary>
+      <div className="mt-4 space-y-4">
+        {coverage.map(({ locale: code, completeCount, missing }) => {
+          const percent = courses.length ? Math.round((completeCount / courses.length) * 100) : 100;
+          return (
+            <div key={code}>
+              <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-200">
+                <span className="font-medium">{formatLanguageName(code, locale)} ({code})</span>
+                <span>{t('admin.coverage.complete', { complete: String(completeCount), total: String(courses.length) })}</span>
+              </div>
+              <div className="mt-1 h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div className="h-full bg-primary" style={{ width: `${percent}%` }} />
+              </div>
+              {missing.length > 0 && (
+                <details className="mt-2 text-sm">
+                  <summary className="cursor-pointer select-none text-gray-600 dark:text-gray-300">
+                    {t('admin.coverage.missing', { count: String(missing.length) })}
+                  </summary>
+                  <ul className="mt-2 space-y-1">
+                    {missing.map(({ course, fields }) => (
+                      <li key={course.id} className="flex flex-wrap items-baseline gap-2">
+                        <button type="button" onClick={() => onEditCourse(course)} className="font-mono text-xs text-primary hover:underline">
+                          {course.id}
+                        </button>
+                        <span className="text-gray-700 dark:text-gray-200">{course.title}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {t('admin.coverage.missingFields', { fields: fields.map(field => t(`admin.field.${field}`)).join(', ') })}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
+
+export default TranslationCoverageReport;
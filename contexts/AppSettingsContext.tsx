@@ -1,5 +1,5 @@
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
-import type { Theme } from '../types';
+import type { Theme, AdvisorSettings } from '../types';
 
 /**
  * Defines the shape of the application settings context.
@@ -9,8 +9,22 @@ interface AppSettingsContextType {
   toggleTheme: () => void;
   favorites: string[];
   toggleFavorite: (courseId: string) => void;
+  advisorSettings: AdvisorSettings;
+  updateAdvisorSettings: (changes: Partial<AdvisorSettings>) => void;
 }
 
+/**
+ * The advisor settings used until the user changes them.
+ */
+export const DEFAULT_ADVISOR_SETTINGS: AdvisorSettings = {
+  retrievalTopN: 12,
+  showRetrievalDebug: false,
+  recentMessageCount: 12,
+  summaryThreshold: 24,
+  useCatalogTools: false,
+  showToolTrace: true,
+};
+
 /**
  * React context for managing global app settings.
  */
@@ -18,7 +32,7 @@ const AppSettingsContext = createContext<AppSettingsContextType | undefined>(und
 
 /**
  * Provider component that makes app settings available to all child components.
- * It manages the theme and favorites state, and persists them to localStorage.
+ * It manages the theme, favorites and advisor settings, and persists them to localStorage.
  * @param {object} props - The component props.
  * @param {ReactNode} props.children - The child components to render.
  */
@@ -34,6 +48,12 @@ export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ childre
     return savedFavorites ? JSON.parse(savedFavorites) : [];
   });
 
+  const [advisorSettings, setAdvisorSettings] = useState<AdvisorSettings>(() => {
+    // Merge with the defaults so settings added in later versions get a value
+    const savedSettings = localStorage.getItem('advisorSettings');
+    return { ...DEFAULT_ADVISOR_SETTINGS, ...(savedSettings ? JSON.parse(savedSettings) : {}) };
+  });
+
   // Effect to apply the theme class to the HTML root and save to localStorage
   useEffect(() => {
     const root = window.document.documentElement;
@@ -47,6 +67,11 @@ export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ childre
     localStorage.setItem('favorites', JSON.stringify(favorites));
   }, [favorites]);
 
+  // Effect to save advisor settings to localStorage whenever they change
+  useEffect(() => {
+    localStorage.setItem('advisorSettings', JSON.stringify(advisorSettings));
+  }, [advisorSettings]);
+
   /**
    * Toggles the theme between 'light' and 'dark'.
    */
@@ -66,8 +91,16 @@ export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ childre
     );
   };
 
+  /**
+   * Updates one or more advisor settings.
+   * @param changes - The settings to change.
+   */
+  const updateAdvisorSettings = (changes: Partial<AdvisorSettings>) => {
+    setAdvisorSettings((prevSettings) => ({ ...prevSettings, ...changes }));
+  };
+
   return (
-    <AppSettingsContext.Provider value={{ theme, toggleTheme, favorites, toggleFavorite }}>
+    <AppSettingsContext.Provider value={{ theme, toggleTheme, favorites, toggleFavorite, advisorSettings, updateAdvisorSettings }}>
       {children}
     </AppSettingsContext.Provider>
   );
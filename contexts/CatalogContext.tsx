@@ -0,0 +1,99 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import type { Course, CourseStatus } from '../types';
+import { useCourses, CoursesState } from '../hooks/useCourses';
+import {
+  applyCatalogOverrides,
+  getCatalogOverrides,
+  saveCatalogOverrides,
+  AdminCatalogEntry,
+  CatalogOverrides,
+} from '../services/catalogOverrides';
+import type { ImportedCourse } from '../services/catalogExport';
+
+/**
+ * The shape of the CatalogContext.
+ */
+interface CatalogContextType {
+  /** The published courses: what learners browse and the advisor recommends from. */
+  courses: Course[];
+  /** Every course, including drafts and retired ones, for the admin page. */
+  entries: AdminCatalogEntry[];
+  /** The state of loading the catalog the local changes are layered over. */
+  status: Omit<CoursesState, 'courses'>;
+  /** Creates or replaces a course. */
+  saveCourse: (course: Course, status: CourseStatus) => void;
+  /** Changes a course's status, e.g. to publish or retire it. */
+  setCourseStatus: (courseId: string, status: CourseStatus) => void;
+  /** Creates or replaces several courses at once. */
+  importCourses: (courses: ImportedCourse[]) => void;
+  /** Drops the local changes to a course: an edited course goes back to the loaded version, a local one is deleted. */
+  revertCourse: (courseId: string) => void;
+}
+
+const CatalogContext = createContext<CatalogContextType | undefined>(undefined);
+
+/**
+ * A provider component that loads the course catalog and layers the admin page's local changes over it.
+ */
+export const CatalogProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { courses: sourceCourses, ...status } = useCourses();
+  const [overrides, setOverrides] = useState<CatalogOverrides>(getCatalogOverrides);
+
+  useEffect(() => {
+    saveCatalogOverrides(overrides);
+  }, [overrides]);
+
+  const entries = useMemo(() => applyCatalogOverrides(sourceCourses, overrides), [sourceCourses, overrides]);
+  const courses = useMemo(
+    () => entries.filter(entry => entry.status === 'published').map(entry => entry.course),
+    [entries]
+  );
+
+  const saveCourse = (course: Course, courseStatus: CourseStatus) => {
+    setOverrides(prev => ({ ...prev, [course.id]: { course, status: courseStatus, updatedAt: Date.now() } }));
+  };
+
+  const setCourseStatus = (courseId: string, courseStatus: CourseStatus) => {
+    const entry = entries.find(candidate => candidate.course.id === courseId);
+    if (entry) {
+      saveCourse(entry.course, courseStatus);
+    }
+  };
+
+  const importCourses = (imported: ImportedCourse[]) => {
+    const updatedAt = Date.now();
+    setOverrides(prev => {
+      const next = { ...prev };
+      imported.forEach(({ course, status: courseStatus }) => {
+        next[course.id] = { course, status: courseStatus, updatedAt };
+      });
+      return next;
+    });
+  };
+
+  const revertCourse = (courseId: string) => {
+    setOverrides(prev => {
+      const { [courseId]: _reverted, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  return (
+    <CatalogContext.Provider value={{ courses, entries, status, saveCourse, setCourseStatus, importCourses, revertCourse }}>
+      {children}
+    </CatalogContext.Provider>
+  );
+};
+
+/**
+ * A custom hook to access the catalog context.
+ * Throws an error if used outside of a CatalogProvider.
+ * @returns The catalog context.
+ */
+export const useCatalog = (): CatalogContextType => {
+  const context = useContext(CatalogContext);
+  if (context === undefined) {
+    throw new Error('useCatalog must be used within a CatalogProvider');
+  }
+  return context;
+};
@@ -1,7 +1,14 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import type { ChatSession, ChatMessage } from '../types';
+import type { ChatSession, ChatMessage, LearnerProfileField, MessageTree } from '../types';
+import { flushSync } from 'react-dom';
 import { v4 as uuidv4 } from 'uuid';
 import { useLanguage } from './LanguageContext';
+import { migrateStoredCourse } from '../services/catalogValidation';
+import { appendMessages as appendToTree, createMessageTree, getBranch, removeMessage as removeFromTree, rewindBranch, switchBranch } from '../services/messageTree';
+import { keepSummaryForBranch } from '../services/historyManager';
+import { mergeProfileUpdate } from '../services/learnerProfile';
+import { mergeImportedSessions, SessionImportReport } from '../services/sessionExport';
+import { inferTitleSource } from '../services/sessionTitle';
 
 /**
  * The shape of the ChatContext.
@@ -13,12 +20,86 @@ interface ChatContextType {
   createSession: () => void;
   deleteSession: (sessionId: string) => void;
   setActiveSessionId: (sessionId: string | null) => void;
-  updateActiveSession: (messages: ChatMessage[]) => void;
+  /**
+   * Adds messages after a message, each replying to the one before, and selects the new branch.
+   * If the parent already has replies, the first new message starts a sibling branch.
+   * @returns The IDs given to the new messages.
+   */
+  appendMessages: (sessionId: string, parentId: string | null, messages: ChatMessage[]) => string[];
+  /** Selects the branch through a message, e.g. to switch to a sibling. */
+  selectBranch: (sessionId: string, messageId: string) => void;
+  /** Ends the selected branch at a message, hiding its replies while a new one is generated. */
+  rewindToMessage: (sessionId: string, messageId: string) => void;
+  /** Deletes a message and its replies, e.g. a failed turn that is being retried. */
+  removeMessage: (sessionId: string, messageId: string) => void;
+  updateSession: (sessionId: string, changes: Partial<Omit<ChatSession, 'id'>>) => void;
+  /**
+   * Applies the advisor's profile update for a turn to the session's latest profile,
+   * so corrections the user made while the reply was pending are kept.
+   */
+  mergeSessionProfile: (sessionId: string, update: Partial<Record<LearnerProfileField, string>> | undefined) => void;
+  /** Gives a session the title the user typed, which generated titles never replace. */
   renameSession: (sessionId: string, newTitle: string) => void;
+  /** Gives a session a title proposed by the advisor, unless the user has renamed it in the meantime. */
+  applyGeneratedTitle: (sessionId: string, title: string) => void;
+  /**
+   * Adds sessions read from an import file to the history, without overwriting any session already there.
+   * @returns How many sessions were added, skipped as duplicates, or given new IDs.
+   */
+  importSessions: (sessions: ChatSession[]) => Omit<SessionImportReport, 'rejected'>;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
 
+/**
+ * Brings the courses kept in a saved message up to date with the current `Course` shape.
+ * Courses that no longer pass validation are dropped from the message.
+ */
+const migrateSavedMessage = (message: ChatMessage): ChatMessage => {
+  const migrated = { ...message };
+  if (message.recommendedCourses) {
+    migrated.recommendedCourses = message.recommendedCourses.flatMap(recommendation => {
+      const course = migrateStoredCourse(recommendation.course);
+      return course ? [{ ...recommendation, course }] : [];
+    });
+  }
+  if (message.learningPath) {
+    migrated.learningPath = {
+      ...message.learningPath,
+      steps: message.learningPath.steps.flatMap(step => {
+        const course = migrateStoredCourse(step.course);
+        return course ? [{ ...step, course }] : [];
+      }),
+    };
+  }
+  return migrated;
+};
+
+/**
+ * Replaces a session's message tree, updating the selected branch and dropping a summary that no longer applies to it.
+ */
+const withMessageTree = (session: ChatSession, messageTree: MessageTree): ChatSession => {
+  const messages = getBranch(messageTree).map(node => node.message);
+  return { ...session, messageTree, messages, summary: keepSummaryForBranch(session.summary, messages) };
+};
+
+/**
+ * Brings a saved session up to date: migrates the courses in every message, records where its title came from and,
+ * for sessions saved before conversations could branch, builds the message tree from the flat message list.
+ */
+const migrateSavedSession = (saved: ChatSession): ChatSession => {
+  const session = { ...saved, titleSource: inferTitleSource(saved) };
+  if (session.messageTree) {
+    const nodes = Object.fromEntries(Object.entries(session.messageTree.nodes).map(([id, node]) =>
+      [id, { ...node, message: { ...migrateSavedMessage(node.message), id } }]));
+    return withMessageTree(session, { ...session.messageTree, nodes });
+  }
+
+  const messages = session.messages.map(message => ({ ...migrateSavedMessage(message), id: uuidv4() }));
+  const summary = session.summary && { ...session.summary, lastCoveredId: messages[session.summary.coveredMessageCount - 1]?.id };
+  return withMessageTree({ ...session, summary }, createMessageTree(messages));
+};
+
 /**
  * A provider component that wraps the application to make chat state available.
  */
@@ -32,7 +113,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       const savedSessions = localStorage.getItem('chatSessions');
       if (savedSessions) {
-        setChatSessions(JSON.parse(savedSessions));
+        const sessions: ChatSession[] = JSON.parse(savedSessions);
+        setChatSessions(sessions.map(migrateSavedSession));
       }
     } catch (error) {
       console.error("Failed to load chat sessions from local storage", error);
@@ -49,11 +131,14 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, [chatSessions]);
 
   const createSession = () => {
+    const greeting: ChatMessage & { id: string } = { id: uuidv4(), sender: 'ai', text: t('chatbot.greeting') };
     const newSession: ChatSession = {
       id: uuidv4(),
-      title: `Conversation ${chatSessions.length + 1}`,
+      title: t('sidebar.untitled'),
+      titleSource: 'default',
       timestamp: Date.now(),
-      messages: [{ sender: 'ai', text: t('chatbot.greeting') }],
+      messages: [greeting],
+      messageTree: createMessageTree([greeting]),
     };
     setChatSessions(prev => [...prev, newSession]);
     setActiveSessionId(newSession.id);
@@ -66,27 +151,88 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const updateActiveSession = (messages: ChatMessage[]) => {
-    if (!activeSessionId) return;
+  /**
+   * Applies a change to a session's message tree.
+   */
+  const updateMessageTree = (sessionId: string, change: (tree: MessageTree) => MessageTree, touch = false) => {
     setChatSessions(prev =>
       prev.map(session =>
-        session.id === activeSessionId ? { ...session, messages, timestamp: Date.now() } : session
+        session.id === sessionId
+          ? { ...withMessageTree(session, change(session.messageTree)), ...(touch ? { timestamp: Date.now() } : {}) }
+          : session
       )
     );
   };
+
+  const appendMessages = (sessionId: string, parentId: string | null, messages: ChatMessage[]): string[] => {
+    const identified = messages.map(message => ({ ...message, id: uuidv4() }));
+    updateMessageTree(sessionId, tree => appendToTree(tree, parentId, identified), true);
+    return identified.map(message => message.id);
+  };
+
+  const selectBranch = (sessionId: string, messageId: string) => {
+    updateMessageTree(sessionId, tree => switchBranch(tree, messageId));
+  };
+
+  const rewindToMessage = (sessionId: string, messageId: string) => {
+    updateMessageTree(sessionId, tree => rewindBranch(tree, messageId));
+  };
+
+  const removeMessage = (sessionId: string, messageId: string) => {
+    updateMessageTree(sessionId, tree => removeFromTree(tree, messageId));
+  };
   
+  const updateSession = (sessionId: string, changes: Partial<Omit<ChatSession, 'id'>>) => {
+    setChatSessions(prev =>
+      prev.map(session =>
+        session.id === sessionId ? { ...session, ...changes } : session
+      )
+    );
+  };
+
+  const mergeSessionProfile = (sessionId: string, update: Partial<Record<LearnerProfileField, string>> | undefined) => {
+    setChatSessions(prev =>
+      prev.map(session =>
+        session.id === sessionId ? { ...session, profile: mergeProfileUpdate(session.profile, update) } : session
+      )
+    );
+  };
+
   const renameSession = (sessionId: string, newTitle: string) => {
     setChatSessions(prev =>
       prev.map(session =>
-        session.id === sessionId ? { ...session, title: newTitle } : session
+        session.id === sessionId ? { ...session, title: newTitle, titleSource: 'user' } : session
       )
     );
   };
 
+  const applyGeneratedTitle = (sessionId: string, title: string) => {
+    setChatSessions(prev =>
+      prev.map(session =>
+        session.id === sessionId && session.titleSource !== 'user' ? { ...session, title, titleSource: 'ai' } : session
+      )
+    );
+  };
+
+  const importSessions = (sessions: ChatSession[]) => {
+    const migrated = sessions.map(migrateSavedSession);
+    let report: Omit<SessionImportReport, 'rejected'> = { added: 0, duplicates: 0, reassigned: 0 };
+    // Merge into the latest state, so changes queued meanwhile, such as a reply being appended, are kept.
+    // The update is applied at once so the report can be returned.
+    flushSync(() => {
+      setChatSessions(prev => {
+        const merged = mergeImportedSessions(prev, migrated);
+        report = merged.report;
+        return merged.sessions;
+      });
+    });
+    return report;
+  };
+
   const activeSession = chatSessions.find(session => session.id === activeSessionId) || null;
 
   return (
-    <ChatContext.Provider value={{ chatSessions, activeSessionId, activeSession, createSession, deleteSession, setActiveSessionId, updateActiveSession, renameSession }}>
+    <ChatContext.Provider value={{ chatSessions, activeSessionId, activeSession, createSession, deleteSession, setActiveSessionId, appendMessages, selectBranch, rewindToMessage, removeMessage, updateSession, mergeSessionProfile, renameSession, applyGeneratedTitle, importSessions }}>
       {children}
     </ChatContext.Provider>
   );
@@ -0,0 +1,85 @@
+import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import { MIN_COMPARED_COURSES, MAX_COMPARED_COURSES } from '../services/courseComparison';
+
+/**
+ * Defines the shape of the comparison context.
+ */
+interface ComparisonContextType {
+  /** The IDs of the courses in the comparison tray, in the order they were added. */
+  comparedIds: string[];
+  /** Adds a course to the tray, or removes it if it is already there. Does nothing when the tray is full. */
+  toggleCompared: (courseId: string) => void;
+  clearCompared: () => void;
+  /** Whether the tray already holds `MAX_COMPARED_COURSES` courses. */
+  isTrayFull: boolean;
+  isComparisonOpen: boolean;
+  setComparisonOpen: (isOpen: boolean) => void;
+}
+
+/**
+ * React context for the courses the user has picked to compare side by side.
+ */
+const ComparisonContext = createContext<ComparisonContextType | undefined>(undefined);
+
+/**
+ * Provider component that makes the comparison tray available to all child components.
+ * The tray is shared across pages, so courses can be picked from the catalog, favorites and chat in turn.
+ * @param {object} props - The component props.
+ * @param {ReactNode} props.children - The child components to render.
+ */
+export const ComparisonProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [isComparisonOpen, setComparisonOpen] = useState(false);
+
+  // Close the comparison once too few courses are left to compare
+  useEffect(() => {
+    if (comparedIds.length < MIN_COMPARED_COURSES) {
+      setComparisonOpen(false);
+    }
+  }, [comparedIds]);
+
+  /**
+   * Adds or removes a course from the comparison tray.
+   * @param courseId - The ID of the course to toggle.
+   */
+  const toggleCompared = (courseId: string) => {
+    setComparedIds(prevIds => {
+      if (prevIds.includes(courseId)) return prevIds.filter(id => id !== courseId);
+      return prevIds.length < MAX_COMPARED_COURSES ? [...prevIds, courseId] : prevIds;
+    });
+  };
+
+  /**
+   * Empties the comparison tray and closes the comparison.
+   */
+  const clearCompared = () => {
+    setComparedIds([]);
+    setComparisonOpen(false);
+  };
+
+  return (
+    <ComparisonContext.Provider value={{
+      comparedIds,
+      toggleCompared,
+      clearCompared,
+      isTrayFull: comparedIds.length >= MAX_COMPARED_COURSES,
+      isComparisonOpen,
+      setComparisonOpen,
+    }}>
+      {children}
+    </ComparisonContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to easily access the comparison context.
+ * Throws an error if used outside of a ComparisonProvider.
+ * @returns The comparison context.
+ */
+export const useComparison = (): ComparisonContextType => {
+  const context = useContext(ComparisonContext);
+  if (context === undefined) {
+    throw new Error('useComparison must be used within a ComparisonProvider');
+  }
+  return context;
+};
@@ -1,16 +1,24 @@
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
-import type { Locale } from '../types';
+import type { CourseDuration, Locale } from '../types';
+import type { DurationTotal } from '../services/duration';
 import en from '../locales/en.json';
 import vi from '../locales/vi.json';
 
 const translations = { en, vi };
 
-type TranslationKey = keyof typeof en;
+/**
+ * The keys of the interface strings, as found in `locales/en.json`.
+ */
+export type TranslationKey = keyof typeof en;
 
 interface LanguageContextType {
   locale: Locale;
   setLocale: (locale: Locale) => void;
   t: (key: TranslationKey, replacements?: Record<string, string>) => string;
+  /** Writes a course duration in the current language, e.g. `6 weeks · 5 h/week` or `6 tuần · 5 giờ/tuần`. */
+  formatDuration: (duration: CourseDuration) => string;
+  /** Writes the combined length of several courses in the current language, in weeks and, when known, hours. */
+  formatDurationTotal: (total: DurationTotal) => string;
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
@@ -35,8 +43,21 @@ export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }
     return translation;
   };
 
+  const formatNumber = (value: number) => new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(value);
+
+  const formatDuration = ({ amount, unit, hoursPerWeek }: CourseDuration): string => {
+    const plural = new Intl.PluralRules(locale).select(amount) === 'one' ? 'one' : 'other';
+    const length = t(`duration.${unit}.${plural}`, { count: formatNumber(amount) });
+    return hoursPerWeek ? t('duration.withHoursPerWeek', { duration: length, hours: formatNumber(hoursPerWeek) }) : length;
+  };
+
+  const formatDurationTotal = ({ weeks, hours }: DurationTotal): string => {
+    const length = formatDuration({ amount: Math.round(weeks), unit: 'week' });
+    return hours !== undefined ? t('duration.withTotalHours', { duration: length, hours: formatNumber(Math.round(hours)) }) : length;
+  };
+
   return (
-    <LanguageContext.Provider value={{ locale, setLocale, t }}>
+    <LanguageContext.Provider value={{ locale, setLocale, t, formatDuration, formatDurationTotal }}>
       {children}
     </LanguageContext.Provider>
   );
@@ -6,6 +6,8 @@ import { AppSettingsProvider } from './contexts/AppSettingsContext';
 import { LanguageProvider } from './contexts/LanguageContext';
 import { RecommendationProvider } from './contexts/RecommendationContext';
 import { ChatProvider } from './contexts/ChatContext';
+import { CatalogProvider } from './contexts/CatalogContext';
+import { ComparisonProvider } from './contexts/ComparisonContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -19,9 +21,13 @@ root.render(
       <AppSettingsProvider>
         <RecommendationProvider>
           <ChatProvider>
-            <HashRouter>
-              <App />
-            </HashRouter>
+            <CatalogProvider>
+              <ComparisonProvider>
+                <HashRouter>
+                  <App />
+                </HashRouter>
+              </ComparisonProvider>
+            </CatalogProvider>
           </ChatProvider>
         </RecommendationProvider>
       </AppSettingsProvider>
@@ -0,0 +1,286 @@
+import React, { useState, useMemo, useRef } from 'react';
+import type { Course, CourseStatus } from '../types';
+import CourseForm from '../components/CourseForm';
+import TranslationCoverageReport from '../components/TranslationCoverageReport';
+import { PlusIcon, SearchIcon } from '../components/icons/Icons';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useCatalog } from '../contexts/CatalogContext';
+import { COURSE_STATUSES, AdminCatalogEntry } from '../services/catalogOverrides';
+import { catalogToJson, catalogToCsv, parseCatalogImport, downloadTextFile } from '../services/catalogExport';
+import { detectCatalogFormat, CatalogLoadError } from '../services/catalogLoader';
+import type { CatalogFieldError } from '../services/catalogValidation';
+import { getAllCourseTexts, resolveCourseText } from '../services/localization';
+
+/**
+ * What the form is doing: nothing, creating a course, or editing one.
+ */
+type FormState = { mode: 'closed' } | { mode: 'create' } | { mode: 'edit'; entry: AdminCatalogEntry };
+
+/**
+ * The outcome of the latest import, shown until the next one.
+ */
+interface ImportReport {
+  imported: number;
+  errors: CatalogFieldError[];
+  failure?: string;
+}
+
+const STATUS_BADGE_CLASSES: Record<CourseStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200',
+  published: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  retired: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const toolbarButtonClass = "px-3 py-2 text-sm font-semibold rounded-lg bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors";
+const rowButtonClass = "text-sm font-medium text-primary hover:underline";
+
+/**
+ * A page for administering the course catalog: creating and editing courses, publishing drafts,
+ * retiring courses and importing or exporting the catalog in bulk.
+ * Changes are kept locally and layered over the loaded catalog (see `services/catalogOverrides.ts`).
+ */
+const AdminCatalogPage: React.FC = () => {
+  const { entries, saveCourse, setCourseStatus, importCourses, revertCourse } = useCatalog();
+  const { locale, t } = useLanguage();
+  const [form, setForm] = useState<FormState>({ mode: 'closed' });
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<CourseStatus | 'all'>('all');
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const categories = useMemo(() => Array.from(new Set(entries.map(entry => entry.course.category))).sort(), [entries]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<CourseStatus, number> = { draft: 0, published: 0, retired: 0 };
+    entries.forEach(entry => counts[entry.status]++);
+    return counts;
+  }, [entries]);
+
+  // Retired courses are no longer shown to learners, so their translations do not count.
+  const activeCourses = useMemo(() => entries.filter(entry => entry.status !== 'retired').map(entry => entry.course), [entries]);
+
+  const visibleEntries = useMemo(() => {
+    const lowercasedFilter = searchTerm.toLowerCase();
+    return entries.filter(({ course, status }) => {
+      const matchesStatus = statusFilter === 'all' || status === statusFilter;
+      const matchesSearch = !searchTerm ||
+        course.id.toLowerCase().includes(lowercasedFilter) ||
+        getAllCourseTexts(course, 'title').some(title => title.toLowerCase().includes(lowercasedFilter)) ||
+        course.provider.toLowerCase().includes(lowercasedFilter);
+      return matchesStatus && matchesSearch;
+    });
+  }, [entries, searchTerm, statusFilter]);
+
+  /**
+   * Saves the form's course and closes the form.
+   */
+  const handleSave = (course: Course, status: CourseStatus) => {
+    saveCourse(course, status);
+    setForm({ mode: 'closed' });
+  };
+
+  /**
+   * Drops a course's local changes after confirming, deleting it if it only exists locally.
+   */
+  const handleRevert = (entry: AdminCatalogEntry) => {
+    const replacements = { id: entry.course.id };
+    const message = entry.origin === 'local' ? t('admin.deleteConfirmation', replacements) : t('admin.revertConfirmation', replacements);
+    if (window.confirm(message)) {
+      revertCourse(entry.course.id);
+    }
+  };
+
+  /**
+   * Reads an uploaded JSON or CSV file and adds its courses to the catalog.
+   */
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = parseCatalogImport(await file.text(), detectCatalogFormat(file.name, file.type));
+      importCourses(result.courses);
+      setImportReport({ imported: result.courses.length, errors: result.errors });
+    } catch (error) {
+      setImportReport({
+        imported: 0,
+        errors: error instanceof CatalogLoadError ? error.fieldErrors : [],
+        failure: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (format === 'json') {
+      downloadTextFile('catalog.json', catalogToJson(entries), 'application/json');
+    } else {
+      downloadTextFile('catalog.csv', catalogToCsv(entries), 'text/csv');
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto animate-fade-in space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">{t('admin.title')}</h1>
+        <p className="mt-2 text-gray-600 dark:text-gray-300">{t('admin.subtitle')}</p>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {COURSE_STATUSES.map(status => `${t(`admin.status.${status}`)}: ${statusCounts[status]}`).join(' · ')}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setForm({ mode: 'create' })}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-white bg-primary hover:bg-primary-hover rounded-lg"
+        >
+          <PlusIcon className="h-4 w-4" />
+          {t('admin.newCourse')}
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={toolbarButtonClass}>{t('admin.import')}</button>
+        <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} className="hidden" />
+        <button onClick={() => handleExport('json')} className={toolbarButtonClass}>{t('admin.exportJson')}</button>
+        <button onClick={() => handleExport('csv')} className={toolbarButtonClass}>{t('admin.exportCsv')}</button>
+      </div>
+
+      {importReport && (
+        <div
+          className={`p-3 rounded-lg border text-sm ${importReport.failure
+            ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200'
+            : 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200'}`}
+          role="status"
+        >
+          <div className="flex items-start justify-between gap-4">
+            <p>
+              {importReport.failure
+                ? t('admin.importFailed', { message: importReport.failure })
+                : t('admin.importSucceeded', { count: String(importReport.imported) })}
+            </p>
+            <button onClick={() => setImportReport(null)} className="font-semibold hover:underline">{t('admin.dismiss')}</button>
+          </div>
+          {importReport.errors.length > 0 && (
+            <details className="mt-2">
+              <summary className="cursor-pointer select-none">{t('admin.importRejected', { count: String(importReport.errors.length) })}</summary>
+              <ul className="mt-2 space-y-1 font-mono text-xs">
+                {importReport.errors.map((fieldError, index) => (
+                  <li key={index}>
+                    #{fieldError.index + 1}{fieldError.courseId ? ` (${fieldError.courseId})` : ''} · {fieldError.field}: {fieldError.message}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+
+      {form.mode !== 'closed' && (
+        <CourseForm
+          key={form.mode === 'edit' ? form.entry.course.id : 'new'}
+          course={form.mode === 'edit' ? form.entry.course : null}
+          status={form.mode === 'edit' ? form.entry.status : 'draft'}
+          existingIds={entries.map(entry => entry.course.id)}
+          categories={categories}
+          onSave={handleSave}
+          onCancel={() => setForm({ mode: 'closed' })}
+        />
+      )}
+
+      <TranslationCoverageReport
+        courses={activeCourses}
+        onEditCourse={course => {
+          const entry = entries.find(candidate => candidate.course.id === course.id);
+          if (entry) setForm({ mode: 'edit', entry });
+        }}
+      />
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-grow">
+          <input
+            type="text"
+            placeholder={t('admin.searchPlaceholder')}
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+            aria-label={t('admin.searchPlaceholder')}
+          />
+          <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">
+            <SearchIcon />
+          </div>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={e => setStatusFilter(e.target.value as CourseStatus | 'all')}
+          className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+          aria-label={t('admin.field.status')}
+        >
+          <option value="all">{t('admin.status.all')}</option>
+          {COURSE_STATUSES.map(status => <option key={status} value={status}>{t(`admin.status.${status}`)}</option>)}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-900/50 text-left text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-3 font-semibold">{t('admin.field.id')}</th>
+              <th className="px-4 py-3 font-semibold">{t('admin.field.title')}</th>
+              <th className="px-4 py-3 font-semibold">{t('admin.field.category')}</th>
+              <th className="px-4 py-3 font-semibold">{t('admin.field.level')}</th>
+              <th className="px-4 py-3 font-semibold">{t('admin.field.status')}</th>
+              <th className="px-4 py-3 font-semibold text-right">{t('admin.actions')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {visibleEntries.map(entry => {
+              const { course, status, origin } = entry;
+              const title = resolveCourseText(course, 'title', locale);
+              return (
+                <tr key={course.id} className={status === 'retired' ? 'opacity-60' : ''}>
+                  <td className="px-4 py-3 font-mono text-xs">{course.id}</td>
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-gray-800 dark:text-gray-100">{title}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {course.provider}
+                      {origin !== 'catalog' && ` · ${t(`admin.origin.${origin}`)}`}
+                    </p>
+                  </td>
+                  <td className="px-4 py-3">{course.category}</td>
+                  <td className="px-4 py-3">{course.level}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_BADGE_CLASSES[status]}`}>
+                      {t(`admin.status.${status}`)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-3 whitespace-nowrap">
+                      <button onClick={() => setForm({ mode: 'edit', entry })} className={rowButtonClass}>{t('admin.edit')}</button>
+                      {status === 'draft' && (
+                        <button onClick={() => setCourseStatus(course.id, 'published')} className={rowButtonClass}>{t('admin.publish')}</button>
+                      )}
+                      {status === 'published' && (
+                        <button onClick={() => setCourseStatus(course.id, 'retired')} className={rowButtonClass}>{t('admin.retire')}</button>
+                      )}
+                      {status === 'retired' && (
+                        <button onClick={() => setCourseStatus(course.id, 'published')} className={rowButtonClass}>{t('admin.restore')}</button>
+                      )}
+                      {origin !== 'catalog' && (
+                        <button onClick={() => handleRevert(entry)} className="text-sm font-medium text-red-600 dark:text-red-400 hover:underline">
+                          {origin === 'local' ? t('admin.delete') : t('admin.revert')}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleEntries.length === 0 && (
+          <p className="p-8 text-center text-gray-500 dark:text-gray-400">{t('admin.noResults')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminCatalogPage;
@@ -1,9 +1,34 @@
-import React, { useState, useMemo } from 'react';
-import type { Course } from '../types';
+import React, { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { Course, DeliveryMode } from '../types';
 import CourseCard from '../components/CourseCard';
+import FacetGroup, { type FacetOption } from '../components/FacetGroup';
 import { SearchIcon } from '../components/icons/Icons';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useRecommendations } from '../contexts/RecommendationContext';
+import { COURSE_LEVELS, DELIVERY_MODES } from '../services/catalogValidation';
+import { buildSearchIndex, searchCourses } from '../services/courseSearch';
+import { formatLanguageName } from '../services/courseFormat';
+import { resolveCourseText } from '../services/localization';
+import {
+  CATALOG_FACETS,
+  DURATION_RANGES,
+  SORT_OPTIONS,
+  START_WINDOWS,
+  countFacetValues,
+  matchesCatalogFilters,
+  parseCatalogFilters,
+  serializeCatalogFilters,
+  sortCatalogResults,
+  type CatalogFacet,
+  type CatalogFilters,
+  type CatalogSort,
+} from '../services/catalogFilters';
+
+/**
+ * How many options the longer facets show before a "show all" toggle.
+ */
+const FACET_COLLAPSED_LIMIT = 8;
 
 /**
  * Props for the CoursesPage component.
@@ -14,46 +39,83 @@ interface CoursesPageProps {
 }
 
 /**
- * A page that displays the entire course catalog with search and filtering functionality.
+ * A page that displays the entire course catalog with search, facets with live counts, sorting and pagination.
+ * The whole view is kept in the URL query, so it can be bookmarked or shared and survives the back button.
  */
 const CoursesPage: React.FC<CoursesPageProps> = ({ courses, onSelectCourse }) => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedLevel, setSelectedLevel] = useState<string>('All');
-  const [selectedCategory, setSelectedCategory] = useState<string>('All');
-  const [currentPage, setCurrentPage] = useState(1);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { locale, t } = useLanguage();
   const { recommendations } = useRecommendations();
 
   const coursesPerPage = 9;
 
-  const categories = useMemo(() => ['All', ...Array.from(new Set(courses.map(c => c.category)))], [courses]);
-  const levels = useMemo(() => ['All', 'Beginner', 'Intermediate', 'Advanced'], []);
+  const filters = useMemo(() => parseCatalogFilters(searchParams), [searchParams]);
+
+  /**
+   * Applies filter changes to the URL. Any change other than paging goes back to the first page.
+   * @param changes - The filters to change.
+   * @param replace - Whether to replace the current history entry instead of adding one, as while typing.
+   */
+  const updateFilters = (changes: Partial<CatalogFilters>, replace = false) => {
+    setSearchParams(serializeCatalogFilters({ ...filters, page: 1, ...changes }), { replace });
+  };
+
+  /**
+   * Selects or clears one value of a facet.
+   */
+  const toggleFacetValue = (facet: CatalogFacet, value: string) => {
+    const selected: string[] = filters[facet];
+    updateFilters({
+      [facet]: selected.includes(value) ? selected.filter(item => item !== value) : [...selected, value],
+    });
+  };
+
+  const hasActiveFilters = CATALOG_FACETS.some(facet => filters[facet].length > 0) ||
+    !!(filters.searchTerm || filters.deliveryMode || filters.instructionLanguage || filters.price || filters.startWithin);
+
+  const languages = useMemo(
+    () => Array.from(new Set(courses.map(c => c.instructionLanguage).filter((code): code is string => !!code))).sort(),
+    [courses]
+  );
+
+  const searchIndex = useMemo(() => buildSearchIndex(courses), [courses]);
+
+  // Ranked by relevance while searching; in catalog order otherwise.
+  const searchResults = useMemo(() => searchCourses(searchIndex, filters.searchTerm), [searchIndex, filters.searchTerm]);
 
   const filteredCourses = useMemo(() => {
-    return courses.filter(course => {
-      const lowercasedFilter = searchTerm.toLowerCase();
-      const title = locale === 'vi' && course.title_vi ? course.title_vi : course.title;
-      const description = locale === 'vi' && course.description_vi ? course.description_vi : course.description;
+    const localizedTitle = (course: Course) => resolveCourseText(course, 'title', locale);
+    const matching = searchResults.filter(({ course }) => matchesCatalogFilters(course, filters));
+    return sortCatalogResults(matching, filters.sort, localizedTitle, locale);
+  }, [searchResults, filters, locale]);
 
-      const matchesSearch = !searchTerm ||
-        title.toLowerCase().includes(lowercasedFilter) ||
-        description.toLowerCase().includes(lowercasedFilter) ||
-        course.provider.toLowerCase().includes(lowercasedFilter) ||
-        course.topics.some(topic => topic.toLowerCase().includes(lowercasedFilter));
+  const facetOptions = useMemo(() => {
+    const optionsFor = (facet: CatalogFacet, values: string[], label: (value: string) => string, byCount: boolean): FacetOption[] => {
+      const counts = countFacetValues(searchResults, filters, facet);
+      const options = values.map(value => ({ value, label: label(value), count: counts.get(value) ?? 0 }));
+      return byCount ? options.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label, locale)) : options;
+    };
+    const distinct = (values: string[]) => Array.from(new Set(values));
 
-      const matchesLevel = selectedLevel === 'All' || course.level === selectedLevel;
-      const matchesCategory = selectedCategory === 'All' || course.category === selectedCategory;
+    return {
+      topics: optionsFor('topics', distinct(courses.flatMap(c => c.topics)), value => value, true),
+      providers: optionsFor('providers', distinct(courses.map(c => c.provider)), value => value, true),
+      levels: optionsFor('levels', COURSE_LEVELS, value => t(`level.${value as Course['level']}`), false),
+      categories: optionsFor('categories', distinct(courses.map(c => c.category)), value => value, true),
+      durations: optionsFor('durations', DURATION_RANGES.map(range => range.id), value => t(`courses.duration.${value as typeof DURATION_RANGES[number]['id']}`), false),
+    };
+  }, [courses, searchResults, filters, locale, t]);
 
-      return matchesSearch && matchesLevel && matchesCategory;
-    });
-  }, [searchTerm, courses, locale, selectedLevel, selectedCategory]);
+  const totalPages = Math.ceil(filteredCourses.length / coursesPerPage);
+  // A bookmarked page past the end shows the last page instead.
+  const currentPage = Math.min(filters.page, Math.max(totalPages, 1));
 
   const paginatedCourses = useMemo(() => {
     const startIndex = (currentPage - 1) * coursesPerPage;
     return filteredCourses.slice(startIndex, startIndex + coursesPerPage);
   }, [filteredCourses, currentPage]);
 
-  const totalPages = Math.ceil(filteredCourses.length / coursesPerPage);
+  const selectClassName = "p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200";
 
   return (
     <div className="animate-fade-in">
@@ -67,8 +129,8 @@ const CoursesPage: React.FC<CoursesPageProps> = ({ courses, onSelectCourse }) =>
           <input
             type="text"
             placeholder={t('courses.searchPlaceholder')}
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
+            value={filters.searchTerm}
+            onChange={(e) => updateFilters({ searchTerm: e.target.value }, true)}
             className="w-full pl-12 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-full focus:ring-2 focus:ring-primary focus:border-primary transition-shadow bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
             aria-label={t('courses.searchPlaceholder')}
           />
@@ -76,61 +138,107 @@ const CoursesPage: React.FC<CoursesPageProps> = ({ courses, onSelectCourse }) =>
             <SearchIcon />
           </div>
         </div>
-        <div className="flex justify-center gap-4">
-          <select value={selectedLevel} onChange={e => setSelectedLevel(e.target.value)} className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200">
-            {levels.map(level => <option key={level} value={level}>{level}</option>)}
+        <div className="flex flex-wrap justify-center gap-4">
+          <select value={filters.deliveryMode ?? ''} onChange={e => updateFilters({ deliveryMode: (e.target.value || undefined) as DeliveryMode | undefined })} className={selectClassName} aria-label={t('courses.filter.deliveryMode')}>
+            <option value="">{t('courses.filter.anyDeliveryMode')}</option>
+            {DELIVERY_MODES.map(mode => <option key={mode} value={mode}>{t(`course.deliveryMode.${mode}`)}</option>)}
+          </select>
+          <select value={filters.instructionLanguage ?? ''} onChange={e => updateFilters({ instructionLanguage: e.target.value || undefined })} className={selectClassName} aria-label={t('courses.filter.language')}>
+            <option value="">{t('courses.filter.anyLanguage')}</option>
+            {languages.map(code => <option key={code} value={code}>{formatLanguageName(code, locale)}</option>)}
           </select>
-          <select value={selectedCategory} onChange={e => setSelectedCategory(e.target.value)} className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary transition-shadow bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200">
-            {categories.map(category => <option key={category} value={category}>{category}</option>)}
+          <select value={filters.price ?? ''} onChange={e => updateFilters({ price: (e.target.value || undefined) as CatalogFilters['price'] })} className={selectClassName} aria-label={t('courses.filter.price')}>
+            <option value="">{t('courses.filter.anyPrice')}</option>
+            <option value="free">{t('courses.filter.free')}</option>
+            <option value="paid">{t('courses.filter.paid')}</option>
+          </select>
+          <select
+            value={filters.startWithin ?? ''}
+            onChange={e => updateFilters({ startWithin: e.target.value ? Number(e.target.value) : undefined })}
+            className={selectClassName}
+            aria-label={t('courses.filter.startWindow')}
+          >
+            <option value="">{t('courses.filter.anyStart')}</option>
+            {START_WINDOWS.map(days => <option key={days} value={days}>{t('courses.filter.startsWithin', { days: String(days) })}</option>)}
           </select>
         </div>
       </div>
 
-      {paginatedCourses.length > 0 ? (
-        <>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {paginatedCourses.map(course => {
-              const courseAnalysis = recommendations.find(r => r.courseId === course.id)?.reasoning;
-              const isRecommended = !!courseAnalysis;
-              return (
-                <CourseCard
-                  key={course.id}
-                  course={course}
-                  onClick={() => onSelectCourse(course, courseAnalysis)}
-                  className="transform hover:-translate-y-1 transition-transform duration-300"
-                  isRecommended={isRecommended}
-                />
-              )
-            })}
-          </div>
-          <div className="flex justify-center mt-8">
-            <button
-              onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-              disabled={currentPage === 1}
-              className="px-4 py-2 mx-1 rounded-lg bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
-            >
-              {t('pagination.previous')}
-            </button>
-            <span className="px-4 py-2 mx-1">
-              {t('pagination.page', { currentPage, totalPages })}
-            </span>
-            <button
-              onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-              disabled={currentPage === totalPages}
-              className="px-4 py-2 mx-1 rounded-lg bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
-            >
-              {t('pagination.next')}
-            </button>
+      <div className="flex flex-col lg:flex-row gap-8">
+        <aside className="lg:w-64 flex-shrink-0" aria-label={t('courses.facet.title')}>
+          <FacetGroup title={t('courses.facet.levels')} options={facetOptions.levels} selected={filters.levels} onToggle={value => toggleFacetValue('levels', value)} />
+          <FacetGroup title={t('courses.facet.categories')} options={facetOptions.categories} selected={filters.categories} onToggle={value => toggleFacetValue('categories', value)} collapsedLimit={FACET_COLLAPSED_LIMIT} />
+          <FacetGroup title={t('courses.facet.durations')} options={facetOptions.durations} selected={filters.durations} onToggle={value => toggleFacetValue('durations', value)} />
+          <FacetGroup title={t('courses.facet.topics')} options={facetOptions.topics} selected={filters.topics} onToggle={value => toggleFacetValue('topics', value)} collapsedLimit={FACET_COLLAPSED_LIMIT} />
+          <FacetGroup title={t('courses.facet.providers')} options={facetOptions.providers} selected={filters.providers} onToggle={value => toggleFacetValue('providers', value)} collapsedLimit={FACET_COLLAPSED_LIMIT} />
+        </aside>
+
+        <div className="flex-grow">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-4">
+              <p className="text-sm text-gray-600 dark:text-gray-300">{t('courses.resultCount', { count: String(filteredCourses.length) })}</p>
+              {hasActiveFilters && (
+                <button type="button" onClick={() => setSearchParams(new URLSearchParams())} className="text-sm font-medium text-primary hover:underline">
+                  {t('courses.clearFilters')}
+                </button>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+              {t('courses.sort.label')}
+              <select value={filters.sort} onChange={e => updateFilters({ sort: e.target.value as CatalogSort })} className={selectClassName}>
+                {SORT_OPTIONS.map(sort => <option key={sort} value={sort}>{t(`courses.sort.${sort}`)}</option>)}
+              </select>
+            </label>
           </div>
-        </>
-      ) : (
-        <div className="text-center py-16">
-          <p className="text-xl text-gray-500 dark:text-gray-400">{t('courses.noResults')}</p>
-          <p className="mt-2 text-gray-400 dark:text-gray-500">{t('courses.noResultsHint')}</p>
+
+          {paginatedCourses.length > 0 ? (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+                {paginatedCourses.map(({ course, matchedTerms }) => {
+                  const courseAnalysis = recommendations.find(r => r.courseId === course.id)?.reasoning;
+                  const isRecommended = !!courseAnalysis;
+                  return (
+                    <CourseCard
+                      key={course.id}
+                      course={course}
+                      onClick={() => onSelectCourse(course, courseAnalysis)}
+                      className="transform hover:-translate-y-1 transition-transform duration-300"
+                      isRecommended={isRecommended}
+                      highlightTerms={matchedTerms}
+                    />
+                  )
+                })}
+              </div>
+              <div className="flex justify-center mt-8">
+                <button
+                  onClick={() => updateFilters({ page: currentPage - 1 })}
+                  disabled={currentPage === 1}
+                  className="px-4 py-2 mx-1 rounded-lg bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                >
+                  {t('pagination.previous')}
+                </button>
+                <span className="px-4 py-2 mx-1">
+                  {t('pagination.page', { currentPage: String(currentPage), totalPages: String(totalPages) })}
+                </span>
+                <button
+                  onClick={() => updateFilters({ page: currentPage + 1 })}
+                  disabled={currentPage === totalPages}
+                  className="px-4 py-2 mx-1 rounded-lg bg-gray-200 dark:bg-gray-700 disabled:opacity-50"
+                >
+                  {t('pagination.next')}
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="text-center py-16">
+              <p className="text-xl text-gray-500 dark:text-gray-400">{t('courses.noResults')}</p>
+              <p className="mt-2 text-gray-400 dark:text-gray-500">{t('courses.noResultsHint')}</p>
+            </div>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 };
 
-export default CoursesPage;
\ No newline at end of file
+export default CoursesPage;
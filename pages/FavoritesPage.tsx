@@ -5,6 +5,7 @@ import CourseCard from '../components/CourseCard';
 import { HeartIcon } from '../components/icons/Icons';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useRecommendations } from '../contexts/RecommendationContext';
+import { sumDurations } from '../services/duration';
 
 /**
  * Props for the FavoritesPage component.
@@ -20,7 +21,7 @@ interface FavoritesPageProps {
  */
 const FavoritesPage: React.FC<FavoritesPageProps> = ({ courses, onSelectCourse }) => {
   const { favorites } = useAppSettings();
-  const { t } = useLanguage();
+  const { t, formatDurationTotal } = useLanguage();
   const { recommendations } = useRecommendations();
 
   const favoriteCourses = courses.filter(course => favorites.includes(course.id));
@@ -30,6 +31,11 @@ const FavoritesPage: React.FC<FavoritesPageProps> = ({ courses, onSelectCourse }
       <div className="text-center mb-12">
         <h1 className="text-4xl md:text-5xl font-bold text-gray-800 dark:text-gray-100">{t('favorites.title')}</h1>
         <p className="mt-4 text-lg text-gray-600 dark:text-gray-300">{t('favorites.subtitle')}</p>
+        {favoriteCourses.length > 0 && (
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            {t('favorites.totalTime', { count: String(favoriteCourses.length), duration: formatDurationTotal(sumDurations(favoriteCourses)) })}
+          </p>
+        )}
       </div>
 
       {favoriteCourses.length > 0 ? (
@@ -1,6 +1,8 @@
 import React from 'react';
 import Chatbot from '../components/Chatbot';
 import ChatSidebar from '../components/ChatSidebar';
+import LearnerProfilePanel from '../components/LearnerProfilePanel';
+import ConversationSummaryPanel from '../components/ConversationSummaryPanel';
 import type { Course } from '../types';
 
 /**
@@ -13,7 +15,8 @@ interface HomePageProps {
 
 /**
  * The main landing page of the application.
- * It displays a welcoming message and the interactive Chatbot component.
+ * It displays the chat history, the interactive Chatbot component, the learner profile and the conversation summary.
+ * On screens too narrow for the side panel, the learner profile is shown as a collapsed section above the chat.
  */
 const HomePage: React.FC<HomePageProps> = ({ courses, onSelectCourse }) => {
   return (
@@ -22,10 +25,18 @@ const HomePage: React.FC<HomePageProps> = ({ courses, onSelectCourse }) => {
         <ChatSidebar />
       </div>
       <div className="flex-1 flex flex-col items-center justify-center w-full p-4">
-        <div className="w-full h-full max-w-none mx-auto">
+        {/* On small screens the side panel is hidden, so the profile collapses above the chat instead */}
+        <div className="lg:hidden w-full max-h-[50%] overflow-y-auto mb-4 flex-shrink-0">
+          <LearnerProfilePanel defaultOpen={false} />
+        </div>
+        <div className="w-full flex-1 min-h-0 max-w-none mx-auto">
           <Chatbot courses={courses} onSelectCourse={onSelectCourse} />
         </div>
       </div>
+      <div className="hidden lg:block w-80 p-4 overflow-y-auto space-y-4">
+        <LearnerProfilePanel />
+        <ConversationSummaryPanel />
+      </div>
     </div>
   );
 };
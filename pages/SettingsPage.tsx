@@ -1,17 +1,20 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAppSettings } from '../contexts/AppSettingsContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useChat } from '../contexts/ChatContext';
 import type { Locale } from '../types';
 import { SunIcon, MoonIcon, TrashIcon } from '../components/icons/Icons';
+import { getRepairLog, clearRepairLog } from '../services/repairLog';
 
 /**
  * A page for managing application settings, such as theme and data.
  */
 const SettingsPage: React.FC = () => {
-  const { theme, toggleTheme } = useAppSettings();
+  const { theme, toggleTheme, advisorSettings, updateAdvisorSettings } = useAppSettings();
   const { locale, setLocale, t } = useLanguage();
   const { chatSessions, deleteSession } = useChat();
+  const [repairLog, setRepairLog] = useState(getRepairLog);
+  const unresolvedRepairs = repairLog.filter(entry => !entry.resolved).length;
 
   /**
    * Clears all saved chat history from localStorage.
@@ -27,6 +30,14 @@ const SettingsPage: React.FC = () => {
     setLocale(lang);
   };
 
+  /**
+   * Clears the log of corrective re-prompts.
+   */
+  const handleClearRepairLog = () => {
+    clearRepairLog();
+    setRepairLog([]);
+  };
+
   return (
     <div className="max-w-2xl mx-auto animate-fade-in space-y-8">
       <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">{t('settings.title')}</h1>
@@ -72,6 +83,113 @@ const SettingsPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Advisor Settings Card */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6 space-y-6">
+        <h2 className="text-xl font-semibold text-gray-700 dark:text-gray-200">{t('settings.advisor.title')}</h2>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex-grow">
+            <label htmlFor="retrieval-top-n" className="text-gray-600 dark:text-gray-300">{t('settings.advisor.topN')}</label>
+            <p className="text-sm text-gray-400 dark:text-gray-500">{t('settings.advisor.topNDescription')}</p>
+          </div>
+          <input
+            id="retrieval-top-n"
+            type="number"
+            min={3}
+            max={100}
+            value={advisorSettings.retrievalTopN}
+            onChange={(e) => updateAdvisorSettings({ retrievalTopN: Math.max(3, Number(e.target.value) || 3) })}
+            className="w-20 p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex-grow">
+            <label htmlFor="recent-message-count" className="text-gray-600 dark:text-gray-300">{t('settings.advisor.recentMessages')}</label>
+            <p className="text-sm text-gray-400 dark:text-gray-500">{t('settings.advisor.recentMessagesDescription')}</p>
+          </div>
+          <input
+            id="recent-message-count"
+            type="number"
+            min={2}
+            max={100}
+            value={advisorSettings.recentMessageCount}
+            onChange={(e) => {
+              const recentMessageCount = Math.max(2, Number(e.target.value) || 2);
+              // The threshold must leave room for at least two messages to be folded in at a time.
+              updateAdvisorSettings({ recentMessageCount, summaryThreshold: Math.max(advisorSettings.summaryThreshold, recentMessageCount + 2) });
+            }}
+            className="w-20 p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex-grow">
+            <label htmlFor="summary-threshold" className="text-gray-600 dark:text-gray-300">{t('settings.advisor.summaryThreshold')}</label>
+            <p className="text-sm text-gray-400 dark:text-gray-500">{t('settings.advisor.summaryThresholdDescription')}</p>
+          </div>
+          <input
+            id="summary-threshold"
+            type="number"
+            min={advisorSettings.recentMessageCount + 2}
+            max={200}
+            value={advisorSettings.summaryThreshold}
+            onChange={(e) => updateAdvisorSettings({ summaryThreshold: Math.max(advisorSettings.recentMessageCount + 2, Number(e.target.value) || 0) })}
+            className="w-20 p-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex-grow">
+            <p className="text-gray-600 dark:text-gray-300">{t('settings.advisor.tools')}</p>
+            <p className="text-sm text-gray-400 dark:text-gray-500">{t('settings.advisor.toolsDescription')}</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={advisorSettings.useCatalogTools}
+            onChange={(e) => updateAdvisorSettings({ useCatalogTools: e.target.checked })}
+            aria-label={t('settings.advisor.tools')}
+            className="w-5 h-5 accent-primary"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex-grow">
+            <p className="text-gray-600 dark:text-gray-300">{t('settings.advisor.toolTrace')}</p>
+            <p className="text-sm text-gray-400 dark:text-gray-500">{t('settings.advisor.toolTraceDescription')}</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={advisorSettings.showToolTrace}
+            onChange={(e) => updateAdvisorSettings({ showToolTrace: e.target.checked })}
+            aria-label={t('settings.advisor.toolTrace')}
+            className="w-5 h-5 accent-primary"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex-grow">
+            <p className="text-gray-600 dark:text-gray-300">{t('settings.advisor.debug')}</p>
+            <p className="text-sm text-gray-400 dark:text-gray-500">{t('settings.advisor.debugDescription')}</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={advisorSettings.showRetrievalDebug}
+            onChange={(e) => updateAdvisorSettings({ showRetrievalDebug: e.target.checked })}
+            aria-label={t('settings.advisor.debug')}
+            className="w-5 h-5 accent-primary"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex-grow">
+            <p className="text-gray-600 dark:text-gray-300">{t('settings.advisor.repairs')}</p>
+            <p className="text-sm text-gray-400 dark:text-gray-500">
+              {t('settings.advisor.repairsDescription', { count: String(repairLog.length), unresolved: String(unresolvedRepairs) })}
+            </p>
+          </div>
+          <button
+            onClick={handleClearRepairLog}
+            disabled={repairLog.length === 0}
+            className="px-4 py-2 text-sm font-semibold rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          >
+            {t('settings.advisor.clearRepairs')}
+          </button>
+        </div>
+      </div>
 
       {/* Data Management Card */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 p-6">
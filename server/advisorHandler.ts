@@ -0,0 +1,128 @@
+import type { Locale } from '../types';
+import type { AdvisorTurnRequest, ToolCall, ToolRound, ToolUse } from '../services/providers/types';
+import { serverConfig, getServerProvider, enforceRateLimit } from './config';
+import { HttpError, Handler, readJsonBody, sendJson, withErrorHandling } from './http';
+import { getPromptLocales } from '../services/prompts';
+import { isChatMessage, isRecord, parseCourses } from './validation';
+
+const SUPPORTED_LOCALES: string[] = getPromptLocales('advisor');
+
+const isSupportedLocale = (locale: unknown): locale is Locale =>
+  typeof locale === 'string' && SUPPORTED_LOCALES.includes(locale);
+
+const isToolCall = (value: unknown): value is ToolCall =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && isRecord(value.args);
+
+const isToolRound = (value: unknown): value is ToolRound =>
+  isRecord(value) && Array.isArray(value.calls) && Array.isArray(value.results)
+  && value.calls.length === value.results.length && value.calls.every(isToolCall);
+
+/**
+ * Validates the tool calls and results a tool-using turn has made so far.
+ * Calls to tools that do not exist are accepted: the client answers them with an error result for the model to read.
+ * @param toolUse - The `toolUse` field of the body.
+ * @returns The validated tool use.
+ * @throws {HttpError} 400 if it is malformed or has too many rounds.
+ */
+const parseToolUse = (toolUse: unknown): ToolUse => {
+  if (!isRecord(toolUse) || typeof toolUse.allowCalls !== 'boolean' || !Array.isArray(toolUse.rounds)) {
+    throw new HttpError(400, '"toolUse" must be an object with a "rounds" array and a boolean "allowCalls"');
+  }
+  if (toolUse.rounds.length > serverConfig.maxToolRounds) {
+    throw new HttpError(400, `"toolUse.rounds" may contain at most ${serverConfig.maxToolRounds} rounds`);
+  }
+  if (!toolUse.rounds.every(isToolRound)) {
+    throw new HttpError(400, 'Each tool round needs "calls" with a string "id" and "name" and object "args", and one result per call');
+  }
+  return { rounds: toolUse.rounds, allowCalls: toolUse.allowCalls };
+};
+
+/**
+ * Validates the shape of an advisor request body.
+ * Only the fields the prompt needs are checked; everything else is passed through untouched.
+ * @param body - The parsed JSON body.
+ * @returns The body as a turn request, plus whether streaming was requested.
+ * @throws {HttpError} 400 if the body is malformed or over the configured limits.
+ */
+const parseTurnRequest = (body: unknown): { request: AdvisorTurnRequest; stream: boolean } => {
+  if (!isRecord(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+
+  const { chatHistory, courses, locale, profile, summary, toolUse, stream } = body;
+
+  if (!Array.isArray(chatHistory) || chatHistory.length === 0) {
+    throw new HttpError(400, '"chatHistory" must be a non-empty array');
+  }
+  if (chatHistory.length > serverConfig.maxHistoryMessages) {
+    throw new HttpError(400, `"chatHistory" may contain at most ${serverConfig.maxHistoryMessages} messages`);
+  }
+  if (!chatHistory.every(isChatMessage)) {
+    throw new HttpError(400, 'Each message needs a "sender" of "user" or "ai" and an optional string "text"');
+  }
+  const validCourses = parseCourses(courses, 'courses', { min: 0, max: serverConfig.maxCourses });
+  if (!isSupportedLocale(locale)) {
+    throw new HttpError(400, `"locale" must be one of: ${SUPPORTED_LOCALES.join(', ')}`);
+  }
+  if (profile != null && !isRecord(profile)) {
+    throw new HttpError(400, '"profile" must be an object');
+  }
+  if (summary != null && typeof summary !== 'string') {
+    throw new HttpError(400, '"summary" must be a string');
+  }
+
+  if (toolUse != null && stream === true) {
+    throw new HttpError(400, 'Tool-using turns cannot be streamed');
+  }
+
+  return {
+    request: {
+      chatHistory,
+      courses: validCourses,
+      locale,
+      profile: (profile as AdvisorTurnRequest['profile']) ?? undefined,
+      summary: typeof summary === 'string' ? summary : undefined,
+      toolUse: toolUse != null ? parseToolUse(toolUse) : undefined,
+    },
+    stream: stream === true,
+  };
+};
+
+/**
+ * `POST /api/advisor` — runs one advisor turn with the server's provider and key.
+ * With `"stream": true` the raw JSON text is streamed back as it is generated; otherwise the parsed `GeminiResponse` is returned.
+ * With `toolUse`, the next `AdvisorToolStep` is returned instead; the client runs the tools and sends their results back.
+ */
+export const advisorHandler: Handler = withErrorHandling(async (req, res) => {
+  if (req.method !== 'POST') {
+    throw new HttpError(405, 'Method not allowed', { Allow: 'POST' });
+  }
+
+  const limit = enforceRateLimit(req);
+  const { request, stream } = parseTurnRequest(await readJsonBody(req, serverConfig.maxBodyBytes));
+  const provider = getServerProvider();
+
+  if (request.toolUse) {
+    sendJson(res, 200, await provider.generateToolStep(request), { 'X-RateLimit-Remaining': String(limit.remaining) });
+    return;
+  }
+  if (!stream) {
+    sendJson(res, 200, await provider.generateTurn(request), { 'X-RateLimit-Remaining': String(limit.remaining) });
+    return;
+  }
+
+  const chunks = provider.streamTurn(request)[Symbol.asyncIterator]();
+  // Wait for the first chunk so that provider failures can still be reported with a proper status code.
+  let next = await chunks.next();
+
+  res.writeHead(200, {
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'X-RateLimit-Remaining': String(limit.remaining),
+  });
+  while (!next.done) {
+    res.write(next.value);
+    next = await chunks.next();
+  }
+  res.end();
+});
@@ -0,0 +1,96 @@
+import type { ChatMessage, LearnerProfile, Locale } from '../types';
+import type { TextTask } from '../services/providers/types';
+import { serverConfig, getServerProvider, enforceRateLimit } from './config';
+import { HttpError, Handler, readJsonBody, sendJson, withErrorHandling } from './http';
+import { getPromptLocales } from '../services/prompts';
+import { MIN_COMPARED_COURSES, MAX_COMPARED_COURSES } from '../services/courseComparison';
+import { isChatMessage, isRecord, parseCourses } from './validation';
+
+/**
+ * Checks that a task's locale has templates for its prompt.
+ * @throws {HttpError} 400 if it has none.
+ */
+const checkLocale: (promptName: string, locale: unknown) => asserts locale is Locale = (promptName, locale) => {
+  const locales: string[] = getPromptLocales(promptName);
+  if (typeof locale !== 'string' || !locales.includes(locale)) {
+    throw new HttpError(400, `"task.locale" must be one of: ${locales.join(', ')}`);
+  }
+};
+
+/**
+ * Checks the messages of a task: at most the configured number, each from the user or the advisor.
+ * @throws {HttpError} 400 if they are malformed.
+ */
+const checkMessages: (messages: unknown, allowEmpty: boolean) => asserts messages is ChatMessage[] = (messages, allowEmpty) => {
+  if (!Array.isArray(messages) || (!allowEmpty && messages.length === 0) || messages.length > serverConfig.maxHistoryMessages) {
+    throw new HttpError(400, `"task.messages" must be ${allowEmpty ? 'an' : 'a non-empty'} array of at most ${serverConfig.maxHistoryMessages} messages`);
+  }
+  if (!messages.every(isChatMessage)) {
+    throw new HttpError(400, 'Each message needs a "sender" of "user" or "ai" and an optional string "text"');
+  }
+};
+
+/**
+ * Validates the task in a completion request body.
+ * @param body - The parsed JSON body.
+ * @returns The task to run.
+ * @throws {HttpError} 400 if the task is malformed, unknown or over the configured limits.
+ */
+const parseTextTask = (body: unknown): TextTask => {
+  const task = isRecord(body) ? body.task : undefined;
+  if (!isRecord(task)) {
+    throw new HttpError(400, 'Request body must contain a "task" object');
+  }
+
+  switch (task.kind) {
+    case 'summary': {
+      const { locale, previousSummary, messages } = task;
+      checkLocale('summary', locale);
+      if (previousSummary != null && typeof previousSummary !== 'string') {
+        throw new HttpError(400, '"task.previousSummary" must be a string');
+      }
+      checkMessages(messages, false);
+      return { kind: 'summary', locale, previousSummary: typeof previousSummary === 'string' ? previousSummary : undefined, messages };
+    }
+    case 'comparison': {
+      const { locale, courses, messages, summary, profile } = task;
+      checkLocale('comparison', locale);
+      const comparedCourses = parseCourses(courses, 'task.courses', { min: MIN_COMPARED_COURSES, max: MAX_COMPARED_COURSES });
+      checkMessages(messages, true);
+      if (summary != null && typeof summary !== 'string') {
+        throw new HttpError(400, '"task.summary" must be a string');
+      }
+      if (profile != null && !isRecord(profile)) {
+        throw new HttpError(400, '"task.profile" must be an object');
+      }
+      return { kind: 'comparison', locale, courses: comparedCourses, messages, summary: typeof summary === 'string' ? summary : undefined, profile: (profile as LearnerProfile) ?? undefined };
+    }
+    case 'title': {
+      const { locale, messages, profile } = task;
+      checkLocale('title', locale);
+      checkMessages(messages, false);
+      if (profile != null && !isRecord(profile)) {
+        throw new HttpError(400, '"task.profile" must be an object');
+      }
+      return { kind: 'title', locale, messages, profile: (profile as LearnerProfile) ?? undefined };
+    }
+    default:
+      throw new HttpError(400, `Unknown task kind "${task.kind}"`);
+  }
+};
+
+/**
+ * `POST /api/complete` — runs a free-text task, such as summarizing a conversation, comparing courses or naming a session, with the server's provider and prompts.
+ * Responds with `{ text }`.
+ */
+export const completeHandler: Handler = withErrorHandling(async (req, res) => {
+  if (req.method !== 'POST') {
+    throw new HttpError(405, 'Method not allowed', { Allow: 'POST' });
+  }
+
+  const limit = enforceRateLimit(req);
+  const task = parseTextTask(await readJsonBody(req, serverConfig.maxBodyBytes));
+  const text = await getServerProvider().completeText(task);
+
+  sendJson(res, 200, { text }, { 'X-RateLimit-Remaining': String(limit.remaining) });
+});
@@ -0,0 +1,73 @@
+import type { IncomingMessage } from 'node:http';
+import type { AdvisorProvider } from '../services/providers/types';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from '../services/providers/openAiCompatibleProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { createRateLimiter, RateLimitResult } from './rateLimit';
+import { HttpError, getClientIp } from './http';
+
+/**
+ * Server settings, read from the process environment.
+ * None of these are ever exposed to the browser.
+ */
+export const serverConfig = {
+  maxBodyBytes: Number(process.env.PROXY_MAX_BODY_BYTES ?? 512 * 1024),
+  rateLimitMax: Number(process.env.PROXY_RATE_LIMIT_MAX ?? 20),
+  rateLimitWindowMs: Number(process.env.PROXY_RATE_LIMIT_WINDOW_MS ?? 60_000),
+  maxHistoryMessages: Number(process.env.PROXY_MAX_HISTORY_MESSAGES ?? 100),
+  maxCourses: Number(process.env.PROXY_MAX_COURSES ?? 1000),
+  maxToolRounds: Number(process.env.PROXY_MAX_TOOL_ROUNDS ?? 8),
+};
+
+const checkRateLimit = createRateLimiter(serverConfig.rateLimitMax, serverConfig.rateLimitWindowMs);
+
+/**
+ * Counts a request against the client's limit, which is shared by every endpoint that calls the model.
+ * @param req - The incoming request.
+ * @returns The limit state after this request.
+ * @throws {HttpError} 429 with a `Retry-After` header if the client is over the limit.
+ */
+export const enforceRateLimit = (req: IncomingMessage): RateLimitResult => {
+  const limit = checkRateLimit(getClientIp(req));
+  if (!limit.allowed) {
+    throw new HttpError(429, 'Too many requests', { 'Retry-After': String(limit.retryAfterSeconds) });
+  }
+  return limit;
+};
+
+let cachedProvider: AdvisorProvider | null = null;
+
+/**
+ * Returns the provider the server uses to reach the model, creating it on first use.
+ * `AI_PROVIDER` selects the backend; without it, Gemini is used when `GEMINI_API_KEY` is set and the mock provider otherwise.
+ * @returns The server-side `AdvisorProvider`.
+ */
+export const getServerProvider = (): AdvisorProvider => {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const env = process.env;
+  const name = env.AI_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'mock');
+
+  switch (name) {
+    case 'gemini':
+      cachedProvider = createGeminiProvider({ apiKey: env.GEMINI_API_KEY ?? '', model: env.GEMINI_MODEL });
+      break;
+    case 'openai':
+      cachedProvider = createOpenAiCompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        model: env.OPENAI_MODEL || 'llama3.1',
+        apiKey: env.OPENAI_API_KEY,
+      });
+      break;
+    case 'mock':
+      console.warn("No GEMINI_API_KEY configured; the proxy is serving the offline mock advisor.");
+      cachedProvider = createMockProvider({ chunkDelayMs: 30 });
+      break;
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}". Expected one of: gemini, openai, mock.`);
+  }
+
+  return cachedProvider;
+};
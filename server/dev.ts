@@ -0,0 +1,39 @@
+import { createServer } from 'node:http';
+import type { Handler } from './http';
+import { sendJson } from './http';
+
+/**
+ * Local development server for the API proxy.
+ * Serves the same handlers as the Vercel functions in `api/`; Vite forwards `/api` requests here.
+ */
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No local env file; rely on the shell environment.
+}
+
+// Imported after the env file is loaded, because the config is read at module load.
+const { advisorHandler } = await import('./advisorHandler');
+const { completeHandler } = await import('./completeHandler');
+const { healthHandler } = await import('./healthHandler');
+
+const routes: Record<string, Handler> = {
+  '/api/advisor': advisorHandler,
+  '/api/complete': completeHandler,
+  '/api/health': healthHandler,
+};
+
+const port = Number(process.env.PROXY_PORT ?? 8787);
+
+createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const handler = routes[pathname];
+  if (!handler) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+  void handler(req, res);
+}).listen(port, () => {
+  console.log(`API proxy listening on http://localhost:${port}`);
+});
@@ -0,0 +1,19 @@
+import { getServerProvider } from './config';
+import { HttpError, Handler, sendJson, withErrorHandling } from './http';
+
+const startedAt = Date.now();
+
+/**
+ * `GET /api/health` — reports that the proxy is up and which provider it is configured with.
+ */
+export const healthHandler: Handler = withErrorHandling(async (req, res) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    throw new HttpError(405, 'Method not allowed', { Allow: 'GET, HEAD' });
+  }
+
+  sendJson(res, 200, {
+    status: 'ok',
+    provider: getServerProvider().name,
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+  }, { 'Cache-Control': 'no-store' });
+});
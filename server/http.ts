@@ -0,0 +1,113 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { classifyError, AdvisorErrorKind } from '../services/advisorErrors';
+
+/**
+ * An error that maps directly to an HTTP status code.
+ */
+export class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(status: number, message: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * A request handler shared by the Vercel functions and the local development server.
+ */
+export type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+/**
+ * Writes a JSON response.
+ * @param res - The server response.
+ * @param status - The HTTP status code.
+ * @param body - The value to serialize.
+ * @param headers - Additional response headers.
+ */
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Determines the client's IP address, honouring the `X-Forwarded-For` header set by Vercel and other proxies.
+ * @param req - The incoming request.
+ * @returns The client IP, or `'unknown'`.
+ */
+export const getClientIp = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+};
+
+/**
+ * Reads and parses a JSON request body, rejecting it as soon as it exceeds the size limit.
+ * @param req - The incoming request.
+ * @param maxBytes - The maximum accepted body size.
+ * @returns The parsed body.
+ * @throws {HttpError} 413 if the body is too large, 400 if it is not valid JSON.
+ */
+export const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const declaredLength = Number(req.headers['content-length']);
+  if (declaredLength > maxBytes) {
+    throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received > maxBytes) {
+      throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+};
+
+/**
+ * The status codes reported for each kind of provider failure.
+ */
+const PROVIDER_ERROR_STATUS: Record<AdvisorErrorKind, number> = {
+  quota: 429,
+  network: 503,
+  safety: 422,
+  parse: 502,
+  schema: 502,
+  unknown: 502,
+};
+
+/**
+ * Wraps a handler so that thrown errors become JSON error responses.
+ * Provider failures are reported as `{ error, kind }` so the client can tell them apart.
+ * @param handler - The handler to wrap.
+ * @returns A handler that never rejects.
+ */
+export const withErrorHandling = (handler: Handler): Handler => async (req, res) => {
+  try {
+    await handler(req, res);
+  } catch (error) {
+    if (res.headersSent) {
+      // The response is already streaming; all we can do is cut it off.
+      console.error("Error after response started:", error);
+      res.end();
+      return;
+    }
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message }, error.headers);
+      return;
+    }
+    console.error("Unhandled server error:", error);
+    const { kind } = classifyError(error);
+    sendJson(res, PROVIDER_ERROR_STATUS[kind], { error: 'The AI provider request failed', kind });
+  }
+};
@@ -0,0 +1,48 @@
+/**
+ * The outcome of a rate limit check.
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Creates a fixed-window rate limiter keyed by client identifier.
+ * State is kept in memory, so on serverless platforms the limit applies per warm instance.
+ * @param maxRequests - The number of requests allowed per window.
+ * @param windowMs - The window length in milliseconds.
+ * @returns A function that records a request for a key and reports whether it is allowed.
+ */
+export const createRateLimiter = (maxRequests: number, windowMs: number) => {
+  const windows = new Map<string, Window>();
+
+  return (key: string, now: number = Date.now()): RateLimitResult => {
+    // Drop expired windows opportunistically so the map does not grow without bound.
+    if (windows.size > 10_000) {
+      for (const [storedKey, window] of windows) {
+        if (window.resetAt <= now) {
+          windows.delete(storedKey);
+        }
+      }
+    }
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count += 1;
+    return {
+      allowed: window.count <= maxRequests,
+      remaining: Math.max(0, maxRequests - window.count),
+      retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+};
@@ -0,0 +1,38 @@
+import type { ChatMessage, Course } from '../types';
+import { validateCourseRecord } from '../services/catalogValidation';
+import { HttpError } from './http';
+
+/**
+ * Whether a value is a JSON object, as opposed to an array, `null` or a primitive.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a value is a message the prompts can render: from the user or the advisor, with an optional string `text`.
+ */
+export const isChatMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value) && (value.sender === 'user' || value.sender === 'ai') && (value.text === undefined || typeof value.text === 'string');
+
+/**
+ * Validates the courses of a request as full course records, so the prompt builders can rely on every required field.
+ * @param courses - The raw value.
+ * @param field - The name of the field in the body, for error messages.
+ * @param count - How many courses are accepted.
+ * @returns The validated courses.
+ * @throws {HttpError} 400 if the value is not an array of that many valid courses.
+ */
+export const parseCourses = (courses: unknown, field: string, count: { min: number; max: number }): Course[] => {
+  if (!Array.isArray(courses) || courses.length < count.min || courses.length > count.max) {
+    const range = count.min > 0 ? `${count.min}-${count.max}` : `at most ${count.max}`;
+    throw new HttpError(400, `"${field}" must be an array of ${range} courses`);
+  }
+  return courses.map((record, index) => {
+    const { course, errors } = validateCourseRecord(record, index);
+    if (!course) {
+      const [{ field: courseField, message }] = errors;
+      throw new HttpError(400, `"${field}[${index}]${courseField === 'record' ? '' : `.${courseField}`}": ${message}`);
+    }
+    return course;
+  });
+};
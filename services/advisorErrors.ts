@@ -0,0 +1,88 @@
+import type { AdvisorErrorKind } from '../types';
+
+export type { AdvisorErrorKind } from '../types';
+
+/**
+ * The kinds that are worth retrying automatically, because the same request may well succeed a moment later.
+ */
+const RETRYABLE_KINDS: AdvisorErrorKind[] = ['quota', 'network', 'parse', 'schema'];
+
+/**
+ * A classified failure of an advisor turn.
+ */
+export class AdvisorError extends Error {
+  kind: AdvisorErrorKind;
+  /** The `chatResponse` text that had already been streamed when the failure happened, if any. */
+  partialText?: string;
+  /** How long the provider asked us to wait before retrying, if it said. */
+  retryAfterMs?: number;
+
+  constructor(kind: AdvisorErrorKind, message: string, options: { cause?: unknown; partialText?: string; retryAfterMs?: number } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AdvisorError';
+    this.kind = kind;
+    this.partialText = options.partialText;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /**
+   * Whether retrying the same request could succeed.
+   * A turn whose text was already partly shown is never retried automatically, so the visible text stays stable.
+   */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind) && !this.partialText;
+  }
+}
+
+/**
+ * Maps an HTTP status code from a provider to an error kind.
+ * @param status - The HTTP status code.
+ * @returns The matching error kind.
+ */
+export const errorKindFromStatus = (status: number): AdvisorErrorKind => {
+  if (status === 429) return 'quota';
+  if (status === 408 || status >= 500) return 'network';
+  return 'unknown';
+};
+
+/**
+ * Reads a `Retry-After` header given in seconds.
+ * @param value - The header value, if any.
+ * @returns The delay in milliseconds, or `undefined` if the header is missing or not a number of seconds.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+/**
+ * Turns any thrown value into an `AdvisorError`, inferring its kind from the error type, status code and message.
+ * @param error - The thrown value.
+ * @returns The classified error. `AdvisorError`s are returned as they are.
+ */
+export const classifyError = (error: unknown): AdvisorError => {
+  if (error instanceof AdvisorError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status: unknown = (error as { status?: unknown })?.status;
+
+  if (error instanceof SyntaxError) {
+    return new AdvisorError('parse', message, { cause: error });
+  }
+  if (typeof status === 'number' && errorKindFromStatus(status) !== 'unknown') {
+    return new AdvisorError(errorKindFromStatus(status), message, { cause: error });
+  }
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new AdvisorError('quota', message, { cause: error });
+  }
+  if (/SAFETY|blocked/i.test(message)) {
+    return new AdvisorError('safety', message, { cause: error });
+  }
+  // A failed `fetch` throws a TypeError, but so does a bug in our own code, so only the message counts.
+  if (/network|fetch failed|Failed to fetch|Load failed|UNAVAILABLE|ECONNREFUSED|ETIMEDOUT/i.test(message)) {
+    return new AdvisorError('network', message, { cause: error });
+  }
+  return new AdvisorError('unknown', message, { cause: error });
+};
@@ -0,0 +1,112 @@
+import type { Course, CourseStatus } from '../types';
+import { formatCsv } from './csv';
+import { parseCatalogRecords, CatalogFormat, CatalogLoadError, CSV_LIST_COLUMNS } from './catalogLoader';
+import { validateCatalog, CatalogFieldError } from './catalogValidation';
+import { isCourseStatus, AdminCatalogEntry } from './catalogOverrides';
+import { formatDurationText } from './duration';
+import { EXPECTED_TRANSLATION_LOCALES, LOCALIZED_COURSE_FIELDS } from './localization';
+
+/**
+ * The columns of an exported CSV catalog, in order, laid out as `services/catalogLoader.ts` expects:
+ * lists separated by `|`, the price split into `price` and `currency`, and the duration as text such as `6 weeks, 5 hours/week`.
+ * Translations follow in `<field>_<locale>` columns such as `title_vi`.
+ */
+const CSV_COLUMNS: (keyof Course | 'status' | 'currency')[] = [
+  'id', 'status', 'title', 'provider', 'category', 'level', 'duration', 'topics',
+  'price', 'currency', 'deliveryMode', 'instructionLanguage', 'startDates', 'prerequisites',
+  'description', 'longDescription',
+];
+
+/**
+ * A course read from an import file, with the status it should get.
+ */
+export interface ImportedCourse {
+  course: Course;
+  status: CourseStatus;
+}
+
+/**
+ * The outcome of reading an import file.
+ */
+export interface CatalogImport {
+  courses: ImportedCourse[];
+  /** Problems with individual records, which were left out. */
+  errors: CatalogFieldError[];
+}
+
+/**
+ * Writes the catalog as JSON, in the shape the catalog loader accepts plus each course's `status`.
+ * @param entries - The courses to export.
+ * @returns The JSON text.
+ */
+export const catalogToJson = (entries: AdminCatalogEntry[]): string =>
+  JSON.stringify(entries.map(({ course, status }) => ({ ...course, status })), null, 2);
+
+/**
+ * Writes the catalog as CSV with a header row.
+ * @param entries - The courses to export.
+ * @returns The CSV text.
+ */
+export const catalogToCsv = (entries: AdminCatalogEntry[]): string => {
+  const locales = new Set(EXPECTED_TRANSLATION_LOCALES);
+  entries.forEach(({ course }) => Object.keys(course.translations ?? {}).forEach(locale => locales.add(locale)));
+  const translationColumns = Array.from(locales).sort()
+    .flatMap(locale => LOCALIZED_COURSE_FIELDS.map(field => ({ name: `${field}_${locale}`, locale, field })));
+
+  const rows = entries.map(({ course, status }) => [
+    ...CSV_COLUMNS.map(column => {
+      if (column === 'status') return status;
+      if (column === 'price') return course.price ? String(course.price.amount) : '';
+      if (column === 'currency') return course.price?.currency ?? '';
+      if (column === 'duration') return formatDurationText(course.duration);
+      if (CSV_LIST_COLUMNS.includes(column)) return ((course[column] as string[] | undefined) ?? []).join('|');
+      return (course[column] as string | undefined) ?? '';
+    }),
+    ...translationColumns.map(({ locale, field }) => course.translations?.[locale]?.[field] ?? ''),
+  ]);
+  return formatCsv([[...CSV_COLUMNS, ...translationColumns.map(column => column.name)], ...rows]);
+};
+
+/**
+ * Reads courses from an import file. Each record may carry a `status`; records without a valid one come in as drafts,
+ * so they are reviewed before being published.
+ * @param text - The file's text.
+ * @param format - The file's format.
+ * @returns The valid courses and the errors of the rejected records.
+ * @throws {CatalogLoadError} If the file cannot be parsed or has no valid course.
+ */
+export const parseCatalogImport = (text: string, format: CatalogFormat): CatalogImport => {
+  const records = parseCatalogRecords(text, format);
+  const { courses, errors } = validateCatalog(records);
+  if (courses.length === 0) {
+    throw new CatalogLoadError('The file has no valid courses.', { fieldErrors: errors });
+  }
+
+  const statuses = new Map<string, CourseStatus>();
+  records.forEach(record => {
+    const { id, status } = (record ?? {}) as Record<string, unknown>;
+    if (typeof id === 'string' && isCourseStatus(status) && !statuses.has(id.trim())) {
+      statuses.set(id.trim(), status);
+    }
+  });
+
+  return {
+    courses: courses.map(course => ({ course, status: statuses.get(course.id) ?? 'draft' })),
+    errors,
+  };
+};
+
+/**
+ * Offers text to the user as a file download.
+ * @param filename - The suggested file name.
+ * @param text - The file's content.
+ * @param mimeType - The file's type.
+ */
+export const downloadTextFile = (filename: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
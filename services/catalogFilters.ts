@@ -0,0 +1,211 @@
+import type { Course, DeliveryMode } from '../types';
+import { COURSE_LEVELS, DELIVERY_MODES } from './catalogValidation';
+import { getUpcomingStartDates, isFreeCourse, todayIsoDate } from './courseFormat';
+import type { CourseSearchResult } from './courseSearch';
+import { durationInWeeks } from './duration';
+
+/**
+ * The multi-select facets of the course catalog.
+ */
+export type CatalogFacet = 'topics' | 'providers' | 'levels' | 'categories' | 'durations';
+
+/**
+ * Duration ranges offered as a facet, by the longest duration in weeks each covers.
+ */
+export const DURATION_RANGES = [
+  { id: 'short', maxWeeks: 4 },
+  { id: 'medium', maxWeeks: 12 },
+  { id: 'long', maxWeeks: Infinity },
+] as const;
+
+export type DurationRange = (typeof DURATION_RANGES)[number]['id'];
+
+/**
+ * How the catalog can be ordered. `relevance` is the search ranking, or catalog order when not searching.
+ */
+export const SORT_OPTIONS = ['relevance', 'title', 'duration', 'level'] as const;
+
+export type CatalogSort = (typeof SORT_OPTIONS)[number];
+
+/**
+ * How far ahead the start-date filter looks, in days.
+ */
+export const START_WINDOWS = [30, 90];
+
+/**
+ * Everything that decides which courses the catalog page shows, and in what order.
+ */
+export interface CatalogFilters {
+  searchTerm: string;
+  topics: string[];
+  providers: string[];
+  levels: Course['level'][];
+  categories: string[];
+  durations: DurationRange[];
+  deliveryMode?: DeliveryMode;
+  instructionLanguage?: string;
+  price?: 'free' | 'paid';
+  /** Only courses starting within this many days. */
+  startWithin?: number;
+  sort: CatalogSort;
+  /** The 1-based results page. */
+  page: number;
+}
+
+/**
+ * The URL query parameter each facet is stored under. Facets repeat the parameter once per selected value.
+ */
+const FACET_PARAMS: Record<CatalogFacet, string> = {
+  topics: 'topic',
+  providers: 'provider',
+  levels: 'level',
+  categories: 'category',
+  durations: 'duration',
+};
+
+/**
+ * Adds days to a `YYYY-MM-DD` date.
+ */
+const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Finds the duration range a course falls in.
+ * @param course - The course.
+ * @returns The range.
+ */
+export const getDurationRange = (course: Course): DurationRange => {
+  const weeks = durationInWeeks(course.duration);
+  return DURATION_RANGES.find(range => weeks <= range.maxWeeks)!.id;
+};
+
+/**
+ * The values a course has for a facet.
+ */
+const facetValues = (course: Course, facet: CatalogFacet): string[] => {
+  switch (facet) {
+    case 'topics': return course.topics;
+    case 'providers': return [course.provider];
+    case 'levels': return [course.level];
+    case 'categories': return [course.category];
+    case 'durations': return [getDurationRange(course)];
+  }
+};
+
+/**
+ * The facets, in the order they are shown.
+ */
+export const CATALOG_FACETS = Object.keys(FACET_PARAMS) as CatalogFacet[];
+
+/**
+ * Checks a course against the filters. Within a facet any selected value may match; across facets all must.
+ * The search term is not checked here, since searching also ranks.
+ * @param course - The course to check.
+ * @param filters - The filters to apply.
+ * @param ignoredFacet - A facet to leave out, used when counting that facet's values.
+ * @returns Whether the course passes.
+ */
+export const matchesCatalogFilters = (course: Course, filters: CatalogFilters, ignoredFacet?: CatalogFacet): boolean => {
+  const matchesFacets = CATALOG_FACETS.every(facet => {
+    const selected: string[] = filters[facet];
+    return facet === ignoredFacet || !selected.length || facetValues(course, facet).some(value => selected.includes(value));
+  });
+  const matchesDeliveryMode = !filters.deliveryMode || course.deliveryMode === filters.deliveryMode;
+  const matchesLanguage = !filters.instructionLanguage || course.instructionLanguage === filters.instructionLanguage;
+  const matchesPrice = !filters.price ||
+    (filters.price === 'free' ? isFreeCourse(course) : !!course.price && !isFreeCourse(course));
+  const matchesStartWindow = filters.startWithin === undefined ||
+    getUpcomingStartDates(course).some(date => date <= addDays(todayIsoDate(), filters.startWithin!));
+
+  return matchesFacets && matchesDeliveryMode && matchesLanguage && matchesPrice && matchesStartWindow;
+};
+
+/**
+ * Counts, for every value of a facet, how many courses would be shown if it were selected alongside
+ * the other facets' current selections.
+ * @param results - The courses matching the search term.
+ * @param filters - The current filters.
+ * @param facet - The facet to count.
+ * @returns The number of courses per facet value.
+ */
+export const countFacetValues = (results: CourseSearchResult[], filters: CatalogFilters, facet: CatalogFacet): Map<string, number> => {
+  const counts = new Map<string, number>();
+  results.forEach(({ course }) => {
+    if (!matchesCatalogFilters(course, filters, facet)) return;
+    new Set(facetValues(course, facet)).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  });
+  return counts;
+};
+
+/**
+ * Orders filtered results. Ties keep the order they came in, so the search ranking breaks them.
+ * @param results - The results to order.
+ * @param sort - The order to use.
+ * @param localizedTitle - Gives the title shown for a course in the current language.
+ * @param locale - The language to compare titles in.
+ * @returns The ordered results.
+ */
+export const sortCatalogResults = (
+  results: CourseSearchResult[],
+  sort: CatalogSort,
+  localizedTitle: (course: Course) => string,
+  locale: string
+): CourseSearchResult[] => {
+  switch (sort) {
+    case 'relevance':
+      return results;
+    case 'title':
+      return [...results].sort((a, b) => localizedTitle(a.course).localeCompare(localizedTitle(b.course), locale));
+    case 'duration':
+      return [...results].sort((a, b) => durationInWeeks(a.course.duration) - durationInWeeks(b.course.duration));
+    case 'level':
+      return [...results].sort((a, b) => COURSE_LEVELS.indexOf(a.course.level) - COURSE_LEVELS.indexOf(b.course.level));
+  }
+};
+
+/**
+ * Reads the catalog filters from URL query parameters, dropping values that are not valid.
+ * @param params - The query parameters.
+ * @returns The filters, with defaults for anything missing.
+ */
+export const parseCatalogFilters = (params: URLSearchParams): CatalogFilters => {
+  const page = Number(params.get('page'));
+  const startWithin = Number(params.get('starts'));
+  const deliveryMode = params.get('mode');
+  const price = params.get('price');
+  const sort = params.get('sort');
+
+  return {
+    searchTerm: params.get('q') ?? '',
+    topics: params.getAll(FACET_PARAMS.topics),
+    providers: params.getAll(FACET_PARAMS.providers),
+    levels: params.getAll(FACET_PARAMS.levels).filter((level): level is Course['level'] => COURSE_LEVELS.includes(level as Course['level'])),
+    categories: params.getAll(FACET_PARAMS.categories),
+    durations: params.getAll(FACET_PARAMS.durations)
+      .filter((range): range is DurationRange => DURATION_RANGES.some(({ id }) => id === range)),
+    deliveryMode: DELIVERY_MODES.includes(deliveryMode as DeliveryMode) ? deliveryMode as DeliveryMode : undefined,
+    instructionLanguage: params.get('lang') || undefined,
+    price: price === 'free' || price === 'paid' ? price : undefined,
+    startWithin: START_WINDOWS.includes(startWithin) ? startWithin : undefined,
+    sort: SORT_OPTIONS.includes(sort as CatalogSort) ? sort as CatalogSort : 'relevance',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+};
+
+/**
+ * Writes the catalog filters as URL query parameters, leaving out defaults so plain views keep a plain URL.
+ * @param filters - The filters.
+ * @returns The query parameters.
+ */
+export const serializeCatalogFilters = (filters: CatalogFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.searchTerm) params.set('q', filters.searchTerm);
+  CATALOG_FACETS.forEach(facet => filters[facet].forEach((value: string) => params.append(FACET_PARAMS[facet], value)));
+  if (filters.deliveryMode) params.set('mode', filters.deliveryMode);
+  if (filters.instructionLanguage) params.set('lang', filters.instructionLanguage);
+  if (filters.price) params.set('price', filters.price);
+  if (filters.startWithin !== undefined) params.set('starts', String(filters.startWithin));
+  if (filters.sort !== 'relevance') params.set('sort', filters.sort);
+  if (filters.page > 1) params.set('page', String(filters.page));
+  return params;
+};
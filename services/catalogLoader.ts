@@ -0,0 +1,173 @@
+import type { Course } from '../types';
+import { parseCsvRecords } from './csv';
+import { validateCatalog, migrateStoredCourse, CatalogFieldError } from './catalogValidation';
+
+const CACHE_KEY = 'catalogCache';
+
+/**
+ * Where the catalog is loaded from: `VITE_CATALOG_URL`, or the `catalog.json` shipped in `public/`.
+ */
+export const CATALOG_URL: string = import.meta.env.VITE_CATALOG_URL || 'catalog.json';
+
+/**
+ * The formats a catalog can be published in.
+ */
+export type CatalogFormat = 'json' | 'csv';
+
+/**
+ * A catalog that loaded successfully, possibly with some records rejected.
+ */
+export interface LoadedCatalog {
+  courses: Course[];
+  /** Problems with individual records, which were left out. */
+  errors: CatalogFieldError[];
+  loadedAt: number;
+}
+
+/**
+ * Thrown when a catalog cannot be used at all: it could not be fetched or parsed, or no record in it is valid.
+ */
+export class CatalogLoadError extends Error {
+  /** The record-level errors, when the catalog parsed but every record was rejected. */
+  fieldErrors: CatalogFieldError[];
+
+  constructor(message: string, options: { cause?: unknown; fieldErrors?: CatalogFieldError[] } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'CatalogLoadError';
+    this.fieldErrors = options.fieldErrors ?? [];
+  }
+}
+
+/**
+ * The CSV columns that hold lists, with the items separated by `|`.
+ */
+export const CSV_LIST_COLUMNS = ['topics', 'startDates', 'prerequisites'];
+
+/**
+ * Turns one CSV row into a raw course record.
+ * List columns hold their items separated by `|`, the `price` column holds the amount and the `currency` column
+ * its currency; empty cells count as missing.
+ */
+const csvRowToRecord = (row: Record<string, string>): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+  Object.entries(row).forEach(([column, value]) => {
+    if (value.trim() === '' || column === 'currency') return;
+    if (CSV_LIST_COLUMNS.includes(column)) {
+      record[column] = value.split('|').map(item => item.trim()).filter(Boolean);
+    } else if (column === 'price') {
+      record.price = { amount: value, currency: row.currency ?? '' };
+    } else {
+      record[column] = value;
+    }
+  });
+  return record;
+};
+
+/**
+ * Works out a catalog's format from its content type, falling back to the file extension.
+ * @param url - The catalog URL.
+ * @param contentType - The response's `Content-Type`, if any.
+ * @returns The detected format.
+ */
+export const detectCatalogFormat = (url: string, contentType?: string | null): CatalogFormat => {
+  if (contentType?.includes('csv')) return 'csv';
+  if (contentType?.includes('json')) return 'json';
+  return /\.csv(\?|#|$)/i.test(url) ? 'csv' : 'json';
+};
+
+/**
+ * Parses catalog text into raw records, without validating them.
+ * JSON may be an array of courses or an object with a `courses` array; CSV needs a header row naming the `Course` fields.
+ * @param text - The catalog text.
+ * @param format - The text's format.
+ * @returns The raw records.
+ * @throws {CatalogLoadError} If the text cannot be parsed or holds no list of records.
+ */
+export const parseCatalogRecords = (text: string, format: CatalogFormat): unknown[] => {
+  let records: unknown[];
+  try {
+    if (format === 'csv') {
+      records = parseCsvRecords(text).map(csvRowToRecord);
+    } else {
+      const parsed = JSON.parse(text);
+      records = Array.isArray(parsed) ? parsed : parsed?.courses;
+    }
+  } catch (error) {
+    throw new CatalogLoadError(`The catalog is not valid ${format.toUpperCase()}.`, { cause: error });
+  }
+  if (!Array.isArray(records)) {
+    throw new CatalogLoadError('The catalog must be an array of courses or an object with a "courses" array.');
+  }
+  return records;
+};
+
+/**
+ * Whether a record is live. Records without a `status` are; exports from the admin page also hold drafts and retired
+ * courses, which must not reach learners or the advisor when such a file is deployed.
+ */
+const isPublishedRecord = (record: unknown): boolean => {
+  const status = (record as { status?: unknown } | null)?.status;
+  return status === undefined || status === null || status === '' || status === 'published';
+};
+
+/**
+ * Parses and validates catalog text. Draft and retired records are left out.
+ * @param text - The catalog text.
+ * @param format - The text's format.
+ * @returns The valid published courses and the errors of the rejected records.
+ * @throws {CatalogLoadError} If the text cannot be parsed or has no valid course.
+ */
+export const parseCatalog = (text: string, format: CatalogFormat): LoadedCatalog => {
+  const { courses, errors } = validateCatalog(parseCatalogRecords(text, format).filter(isPublishedRecord));
+  if (courses.length === 0) {
+    throw new CatalogLoadError('The catalog has no valid courses.', { fieldErrors: errors });
+  }
+  return { courses, errors, loadedAt: Date.now() };
+};
+
+/**
+ * Fetches, parses and validates the catalog.
+ * @param url - Where to load the catalog from.
+ * @returns The loaded catalog.
+ * @throws {CatalogLoadError} If the catalog cannot be fetched or used.
+ */
+export const fetchCatalog = async (url: string = CATALOG_URL): Promise<LoadedCatalog> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { cache: 'no-cache' });
+  } catch (error) {
+    throw new CatalogLoadError('The catalog could not be reached.', { cause: error });
+  }
+  if (!response.ok) {
+    throw new CatalogLoadError(`The catalog request failed with status ${response.status}.`);
+  }
+  return parseCatalog(await response.text(), detectCatalogFormat(url, response.headers.get('Content-Type')));
+};
+
+/**
+ * Reads the last catalog that loaded successfully.
+ * @returns The cached catalog, or `null` if there is none.
+ */
+export const getCachedCatalog = (): LoadedCatalog | null => {
+  try {
+    const cached = JSON.parse(localStorage.getItem(CACHE_KEY) ?? 'null');
+    if (!Array.isArray(cached?.courses)) return null;
+    // Catalogs cached by older versions may hold courses in an older shape.
+    const courses = (cached.courses as Course[]).map(migrateStoredCourse).filter((course): course is Course => course !== null);
+    return courses.length ? { ...cached, courses } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remembers a catalog that loaded successfully, so the app keeps working if a later refresh fails.
+ * @param catalog - The catalog to cache.
+ */
+export const cacheCatalog = (catalog: LoadedCatalog) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(catalog));
+  } catch (error) {
+    console.error("Failed to cache the catalog in local storage", error);
+  }
+};
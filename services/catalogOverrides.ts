@@ -0,0 +1,111 @@
+import type { Course, CourseStatus } from '../types';
+import { migrateStoredCourse } from './catalogValidation';
+
+const STORAGE_KEY = 'catalogOverrides';
+
+/**
+ * Whether this build offers the catalog admin page, set with `VITE_CATALOG_ADMIN=true`.
+ * Off by default, so the deployed site does not offer the editor to every visitor.
+ */
+export const CATALOG_ADMIN_ENABLED: boolean = import.meta.env.VITE_CATALOG_ADMIN === 'true';
+
+/**
+ * The publication states, in the order they are offered on the admin page.
+ */
+export const COURSE_STATUSES: CourseStatus[] = ['draft', 'published', 'retired'];
+
+/**
+ * A local change to one course: an edited or new course, or a status change.
+ */
+export interface CatalogOverride {
+  course: Course;
+  status: CourseStatus;
+  updatedAt: number;
+}
+
+/**
+ * Local changes to the catalog, keyed by course ID.
+ */
+export type CatalogOverrides = Record<string, CatalogOverride>;
+
+/**
+ * One course as seen on the admin page.
+ */
+export interface AdminCatalogEntry {
+  course: Course;
+  status: CourseStatus;
+  /**
+   * Where the course comes from:
+   * - `catalog`: the loaded catalog, unchanged.
+   * - `edited`: the loaded catalog, with local changes.
+   * - `local`: created or imported locally; not in the loaded catalog.
+   */
+  origin: 'catalog' | 'edited' | 'local';
+  /** When the course was last changed locally, if it was. */
+  updatedAt?: number;
+}
+
+/**
+ * Checks whether a value is a known publication state.
+ * @param value - The value to check.
+ * @returns `true` if it is a `CourseStatus`.
+ */
+export const isCourseStatus = (value: unknown): value is CourseStatus =>
+  COURSE_STATUSES.includes(value as CourseStatus);
+
+/**
+ * Reads the saved local changes to the catalog.
+ * @returns The overrides, or none if nothing usable is saved.
+ */
+export const getCatalogOverrides = (): CatalogOverrides => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    if (!saved || typeof saved !== 'object' || Array.isArray(saved)) return {};
+    // Changes saved by older versions may hold courses in an older shape.
+    const overrides: CatalogOverrides = {};
+    Object.entries(saved as CatalogOverrides).forEach(([id, override]) => {
+      const course = migrateStoredCourse(override.course);
+      if (course) overrides[id] = { ...override, course };
+    });
+    return overrides;
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Saves the local changes to the catalog.
+ * @param overrides - The overrides to save.
+ */
+export const saveCatalogOverrides = (overrides: CatalogOverrides) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error("Failed to save catalog changes to local storage", error);
+  }
+};
+
+/**
+ * Layers the local changes over the loaded catalog.
+ * Courses keep the loaded catalog's order; local-only courses follow, oldest first.
+ * @param courses - The loaded catalog, all of which counts as published.
+ * @param overrides - The local changes.
+ * @returns Every course with its status and origin.
+ */
+export const applyCatalogOverrides = (courses: Course[], overrides: CatalogOverrides): AdminCatalogEntry[] => {
+  const sourceIds = new Set(courses.map(course => course.id));
+
+  const entries: AdminCatalogEntry[] = courses.map(course => {
+    const override = overrides[course.id];
+    return override
+      ? { course: override.course, status: override.status, origin: 'edited', updatedAt: override.updatedAt }
+      : { course, status: 'published', origin: 'catalog' };
+  });
+
+  const localEntries: AdminCatalogEntry[] = Object.values(overrides)
+    .filter(override => !sourceIds.has(override.course.id))
+    .sort((a, b) => a.updatedAt - b.updatedAt)
+    .map(override => ({ course: override.course, status: override.status, origin: 'local', updatedAt: override.updatedAt }));
+
+  return [...entries, ...localEntries];
+};
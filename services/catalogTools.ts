@@ -0,0 +1,221 @@
+import type { Course, CatalogToolName } from '../types';
+import { searchCatalog } from './retrieval';
+import { DELIVERY_MODES } from './catalogValidation';
+import { getUpcomingStartDates } from './courseFormat';
+import { durationInWeeks } from './duration';
+import { MAX_COMPARED_COURSES } from './courseComparison';
+
+/**
+ * The most courses a single search returns, so tool results stay small.
+ */
+const MAX_SEARCH_RESULTS = 8;
+
+/**
+ * A provider-neutral description of a tool, with its parameters as JSON Schema.
+ */
+export interface ToolDeclaration {
+  name: CatalogToolName;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * The catalog tools offered to the model.
+ */
+export const CATALOG_TOOL_DECLARATIONS: ToolDeclaration[] = [
+  {
+    name: 'searchCourses',
+    description: 'Searches the course catalog by keywords, optionally filtered by level, category, delivery format, language of instruction, price, start date and length. Returns the best matches with a short description.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: "Keywords describing what the learner wants, e.g. 'data visualization python'." },
+        level: { type: 'string', enum: ['Beginner', 'Intermediate', 'Advanced'], description: 'Only return courses of this level.' },
+        category: { type: 'string', description: 'Only return courses in this category, as named by listCategories.' },
+        deliveryMode: { type: 'string', enum: DELIVERY_MODES, description: 'Only return courses delivered this way.' },
+        instructionLanguage: { type: 'string', description: "Only return courses taught in this language, as an ISO 639-1 code such as 'vi' or 'en'." },
+        maxPrice: { type: 'number', description: 'Only return courses costing at most this amount, in the given currency. Use 0 for free courses.' },
+        currency: { type: 'string', description: "The ISO 4217 currency maxPrice is in, such as 'VND' or 'USD'. Courses priced in other currencies are left out unless they are free. Required with a non-zero maxPrice when the catalog uses several currencies." },
+        startsBefore: { type: 'string', description: 'Only return courses with an upcoming start date on or before this date, written as YYYY-MM-DD.' },
+        maxWeeks: { type: 'number', description: 'Only return courses lasting at most this many weeks. A month counts as about 4.3 weeks.' },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'getCourseDetails',
+    description: 'Returns every detail of one course, including its long description and topics.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'The course ID.' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'listCategories',
+    description: 'Lists the catalog categories with how many courses each has and which levels they cover.',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'compareCourses',
+    description: `Compares up to ${MAX_COMPARED_COURSES} courses side by side and lists the topics they share.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, description: 'The course IDs to compare.' },
+      },
+      required: ['ids'],
+    },
+  },
+];
+
+/**
+ * The names of the catalog tools.
+ */
+export const CATALOG_TOOL_NAMES: CatalogToolName[] = CATALOG_TOOL_DECLARATIONS.map(declaration => declaration.name);
+
+/**
+ * Checks whether a tool name requested by the model is one of the catalog tools.
+ * @param name - The requested tool name.
+ * @returns Whether the tool exists.
+ */
+export const isCatalogToolName = (name: string): name is CatalogToolName =>
+  (CATALOG_TOOL_NAMES as string[]).includes(name);
+
+/**
+ * The outcome of running a tool locally.
+ */
+export interface ToolExecution {
+  /** The value returned to the model. */
+  result: unknown;
+  /** How many courses or categories the result holds, for the trace. */
+  resultCount: number;
+}
+
+/**
+ * A course's length in weeks, rounded to one decimal place, so the model can add up and compare lengths.
+ */
+const weeksOf = (course: Course): number => Math.round(durationInWeeks(course.duration) * 10) / 10;
+
+/**
+ * Summarizes a course for search results.
+ */
+const toSearchResult = (course: Course) => ({
+  id: course.id,
+  title: course.title,
+  level: course.level,
+  category: course.category,
+  duration: course.duration,
+  durationWeeks: weeksOf(course),
+  price: course.price,
+  deliveryMode: course.deliveryMode,
+  instructionLanguage: course.instructionLanguage,
+  nextStartDate: getUpcomingStartDates(course)[0],
+  description: course.description,
+});
+
+/**
+ * Gives every English field of a course. Localized fields are left out to save tokens.
+ */
+const toDetails = (course: Course) => ({
+  id: course.id,
+  title: course.title,
+  provider: course.provider,
+  description: course.description,
+  longDescription: course.longDescription,
+  duration: course.duration,
+  durationWeeks: weeksOf(course),
+  level: course.level,
+  topics: course.topics,
+  category: course.category,
+  price: course.price,
+  deliveryMode: course.deliveryMode,
+  instructionLanguage: course.instructionLanguage,
+  upcomingStartDates: course.startDates && getUpcomingStartDates(course),
+  prerequisites: course.prerequisites,
+});
+
+/**
+ * Runs a catalog tool against the given courses.
+ * Bad arguments are reported back to the model as an `error` result, so it can correct itself.
+ * @param name - The tool to run.
+ * @param args - The arguments the model supplied.
+ * @param courses - The catalog to query.
+ * @returns The result for the model and its size for the trace.
+ */
+export const executeCatalogTool = (name: string, args: Record<string, unknown>, courses: Course[]): ToolExecution => {
+  switch (name) {
+    case 'searchCourses': {
+      const query = typeof args.query === 'string' ? args.query : '';
+      const level = typeof args.level === 'string' ? args.level.toLowerCase() : undefined;
+      const category = typeof args.category === 'string' ? args.category.toLowerCase() : undefined;
+      const deliveryMode = typeof args.deliveryMode === 'string' ? args.deliveryMode.toLowerCase() : undefined;
+      const language = typeof args.instructionLanguage === 'string' ? args.instructionLanguage.toLowerCase() : undefined;
+      const maxPrice = typeof args.maxPrice === 'number' ? args.maxPrice : undefined;
+      const currency = typeof args.currency === 'string' ? args.currency.trim().toUpperCase() : undefined;
+      const startsBefore = typeof args.startsBefore === 'string' ? args.startsBefore : undefined;
+      const maxWeeks = typeof args.maxWeeks === 'number' ? args.maxWeeks : undefined;
+      // Amounts in different currencies cannot be compared, so a price limit needs to say which one it is in.
+      const currencies = [...new Set(courses.flatMap(course => course.price ? [course.price.currency] : []))];
+      if (maxPrice && !currency && currencies.length > 1) {
+        return { result: { error: `The catalog is priced in several currencies (${currencies.join(', ')}); give "currency" with "maxPrice".` }, resultCount: 0 };
+      }
+      const withinPrice = (price: Course['price']) =>
+        !!price && (price.amount === 0 || ((!currency || price.currency === currency) && price.amount <= maxPrice));
+      // Courses missing a filtered field are left out, since they cannot be shown to meet it.
+      const pool = courses.filter(course =>
+        (!level || course.level.toLowerCase() === level) &&
+        (!category || course.category.toLowerCase() === category) &&
+        (!deliveryMode || course.deliveryMode === deliveryMode) &&
+        (!language || course.instructionLanguage === language) &&
+        (maxPrice === undefined || withinPrice(course.price)) &&
+        (!startsBefore || getUpcomingStartDates(course).some(date => date <= startsBefore)) &&
+        (maxWeeks === undefined || durationInWeeks(course.duration) <= maxWeeks)
+      );
+      // Without a query, the filters alone decide, in catalog order.
+      const found = query.trim()
+        ? searchCatalog(query, pool, MAX_SEARCH_RESULTS).map(({ course }) => course)
+        : pool.slice(0, MAX_SEARCH_RESULTS);
+      return { result: { courses: found.map(toSearchResult) }, resultCount: found.length };
+    }
+    case 'getCourseDetails': {
+      const course = courses.find(c => c.id === args.id);
+      return course
+        ? { result: { course: toDetails(course) }, resultCount: 1 }
+        : { result: { error: `No course has the ID "${String(args.id)}".` }, resultCount: 0 };
+    }
+    case 'listCategories': {
+      const categories = new Map<string, { category: string; courseCount: number; levels: Set<string> }>();
+      courses.forEach(course => {
+        const entry = categories.get(course.category) ?? { category: course.category, courseCount: 0, levels: new Set<string>() };
+        entry.courseCount += 1;
+        entry.levels.add(course.level);
+        categories.set(course.category, entry);
+      });
+      const result = Array.from(categories.values()).map(entry => ({ ...entry, levels: Array.from(entry.levels) }));
+      return { result: { categories: result }, resultCount: result.length };
+    }
+    case 'compareCourses': {
+      const ids = Array.isArray(args.ids) ? args.ids.filter((id): id is string => typeof id === 'string') : [];
+      const compared = ids.slice(0, MAX_COMPARED_COURSES)
+        .map(id => courses.find(course => course.id === id))
+        .filter((course): course is Course => course !== undefined);
+      const unknownIds = ids.filter(id => !courses.some(course => course.id === id));
+      const sharedTopics = compared.length
+        ? compared[0].topics.filter(topic => compared.every(course => course.topics.includes(topic)))
+        : [];
+      return {
+        result: {
+          courses: compared.map(toDetails),
+          sharedTopics,
+          ...(unknownIds.length ? { unknownIds } : {}),
+        },
+        resultCount: compared.length,
+      };
+    }
+    default:
+      return { result: { error: `Unknown tool "${name}".` }, resultCount: 0 };
+  }
+};
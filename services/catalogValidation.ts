@@ -0,0 +1,248 @@
+import type { Course, CourseTranslation, DeliveryMode, LocalizedCourseField } from '../types';
+import { DURATION_UNITS, normalizeDuration } from './duration';
+import { CONTENT_SOURCE_LOCALE, LOCALIZED_COURSE_FIELDS, normalizeLocaleCode } from './localization';
+
+/**
+ * The course levels the app knows how to display and filter.
+ */
+export const COURSE_LEVELS: Course['level'][] = ['Beginner', 'Intermediate', 'Advanced'];
+
+/**
+ * The ways a course can be delivered.
+ */
+export const DELIVERY_MODES: DeliveryMode[] = ['online', 'in-person', 'hybrid'];
+
+/**
+ * A problem with one field of one catalog record.
+ */
+export interface CatalogFieldError {
+  /** The record's position in the source, starting at 0. */
+  index: number;
+  /** The record's ID, when it has a usable one. */
+  courseId?: string;
+  field: keyof Course | 'record';
+  message: string;
+}
+
+/**
+ * The outcome of validating a catalog.
+ */
+export interface CatalogValidationResult {
+  /** The records that passed, in source order. */
+  courses: Course[];
+  /** Every problem found. Records with any error are left out of `courses`. */
+  errors: CatalogFieldError[];
+}
+
+const REQUIRED_TEXT_FIELDS = ['id', 'title', 'provider', 'description', 'longDescription', 'category'] as const;
+
+/**
+ * Matches top-level translation fields such as `title_vi` or `description_pt-BR`, as written by older catalogs and CSV files.
+ */
+const FLAT_TRANSLATION_KEY = /^(title|description|longDescription)_([a-zA-Z]{2}(?:[-_][a-zA-Z]{2})?)$/;
+
+/**
+ * Checks whether a string is a real calendar date written as `YYYY-MM-DD`.
+ */
+const isIsoDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  // Out-of-range days such as 02-30 either fail to parse or roll over into the next month.
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/**
+ * Reads an optional list of strings, trimming each and dropping blanks.
+ * @returns The list, `undefined` if the field is absent, or `null` if it is not a list of strings.
+ */
+const readStringList = (value: unknown): string[] | undefined | null => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return null;
+  return value.map((item: string) => item.trim()).filter(Boolean);
+};
+
+/**
+ * Reads a record's translations from its `translations` map and from flat fields such as `title_vi`.
+ * The map wins where both give the same field. Blank texts are dropped.
+ * @returns The translations, `undefined` if there are none, or an error message if they are malformed.
+ */
+const readTranslations = (raw: Record<string, unknown>): Course['translations'] | string => {
+  const translations: Record<string, CourseTranslation> = {};
+  let error: string | undefined;
+  const add = (localeCode: string, field: LocalizedCourseField, value: unknown) => {
+    if (value === undefined || value === null) return;
+    const locale = normalizeLocaleCode(localeCode);
+    if (!locale) {
+      error = `"${localeCode}" is not a locale code such as "vi" or "pt-BR"`;
+    } else if (locale === CONTENT_SOURCE_LOCALE) {
+      error = `Translations into "${CONTENT_SOURCE_LOCALE}" belong in the main fields`;
+    } else if (typeof value !== 'string') {
+      error = `The ${locale} ${field} must be a string`;
+    } else if (value.trim()) {
+      (translations[locale] ??= {})[field] = value.trim();
+    }
+  };
+
+  Object.entries(raw).forEach(([key, value]) => {
+    const match = key.match(FLAT_TRANSLATION_KEY);
+    if (match) add(match[2], match[1] as LocalizedCourseField, value);
+  });
+
+  if (raw.translations !== undefined && raw.translations !== null) {
+    if (typeof raw.translations !== 'object' || Array.isArray(raw.translations)) {
+      return 'Must map locale codes to translated fields';
+    }
+    Object.entries(raw.translations as Record<string, unknown>).forEach(([locale, translation]) => {
+      if (!translation || typeof translation !== 'object' || Array.isArray(translation)) {
+        error = `The ${locale} translation must be an object with ${LOCALIZED_COURSE_FIELDS.join(', ')}`;
+        return;
+      }
+      LOCALIZED_COURSE_FIELDS.forEach(field => add(locale, field, (translation as Record<string, unknown>)[field]));
+    });
+  }
+
+  if (error) return error;
+  return Object.keys(translations).length ? translations : undefined;
+};
+
+/**
+ * Checks one raw record against the `Course` type.
+ * Text is trimmed, and empty optional fields are dropped. Older record shapes, such as free-text durations
+ * and flat `title_vi` fields, are converted.
+ * @param record - The raw record, e.g. from JSON or a CSV row.
+ * @param index - The record's position, for error reporting.
+ * @returns The course if the record is valid, and the errors found.
+ */
+export const validateCourseRecord = (record: unknown, index: number): { course?: Course; errors: CatalogFieldError[] } => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return { errors: [{ index, field: 'record', message: 'Expected an object' }] };
+  }
+
+  const raw = record as Record<string, unknown>;
+  const courseId = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : undefined;
+  const errors: CatalogFieldError[] = [];
+  const fail = (field: CatalogFieldError['field'], message: string) => errors.push({ index, courseId, field, message });
+  const course: Partial<Course> = {};
+
+  REQUIRED_TEXT_FIELDS.forEach(field => {
+    const value = raw[field];
+    if (typeof value !== 'string' || !value.trim()) {
+      fail(field, value === undefined ? 'Required' : 'Must be a non-empty string');
+    } else {
+      course[field] = value.trim();
+    }
+  });
+
+  const translations = readTranslations(raw);
+  if (typeof translations === 'string') {
+    fail('translations', translations);
+  } else if (translations) {
+    course.translations = translations;
+  }
+
+  if (!COURSE_LEVELS.includes(raw.level as Course['level'])) {
+    fail('level', `Must be one of: ${COURSE_LEVELS.join(', ')}`);
+  } else {
+    course.level = raw.level as Course['level'];
+  }
+
+  if (raw.duration === undefined || raw.duration === null || raw.duration === '') {
+    fail('duration', 'Required');
+  } else {
+    const duration = normalizeDuration(raw.duration);
+    if (!duration) {
+      fail('duration', `Must be a length such as "6 weeks", or a positive amount with a unit (${DURATION_UNITS.join(', ')}) and optional hours per week`);
+    } else {
+      course.duration = duration;
+    }
+  }
+
+  if (raw.topics === undefined) {
+    fail('topics', 'Required');
+  } else if (!Array.isArray(raw.topics) || raw.topics.some(topic => typeof topic !== 'string')) {
+    fail('topics', 'Must be an array of strings');
+  } else {
+    course.topics = raw.topics.map((topic: string) => topic.trim()).filter(Boolean);
+  }
+
+  if (raw.price !== undefined && raw.price !== null) {
+    const price = raw.price as Record<string, unknown>;
+    const amount = typeof price?.amount === 'string' && price.amount.trim() ? Number(price.amount) : price?.amount;
+    const currency = typeof price?.currency === 'string' ? price.currency.trim().toUpperCase() : '';
+    if (typeof price !== 'object' || typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      fail('price', 'Must have a non-negative numeric amount');
+    } else if (!/^[A-Z]{3}$/.test(currency)) {
+      fail('price', 'Must have a three-letter ISO 4217 currency code');
+    } else {
+      course.price = { amount, currency };
+    }
+  }
+
+  if (raw.deliveryMode !== undefined && raw.deliveryMode !== null && raw.deliveryMode !== '') {
+    if (!DELIVERY_MODES.includes(raw.deliveryMode as DeliveryMode)) {
+      fail('deliveryMode', `Must be one of: ${DELIVERY_MODES.join(', ')}`);
+    } else {
+      course.deliveryMode = raw.deliveryMode as DeliveryMode;
+    }
+  }
+
+  if (raw.instructionLanguage !== undefined && raw.instructionLanguage !== null && raw.instructionLanguage !== '') {
+    const language = typeof raw.instructionLanguage === 'string' ? raw.instructionLanguage.trim().toLowerCase() : '';
+    if (!/^[a-z]{2}$/.test(language)) {
+      fail('instructionLanguage', 'Must be a two-letter ISO 639-1 language code');
+    } else {
+      course.instructionLanguage = language;
+    }
+  }
+
+  const startDates = readStringList(raw.startDates);
+  if (startDates === null || startDates?.some(date => !isIsoDate(date))) {
+    fail('startDates', 'Must be an array of dates written as YYYY-MM-DD');
+  } else if (startDates) {
+    course.startDates = [...new Set(startDates)].sort();
+  }
+
+  const prerequisites = readStringList(raw.prerequisites);
+  if (prerequisites === null) {
+    fail('prerequisites', 'Must be an array of course IDs');
+  } else if (prerequisites && courseId && prerequisites.includes(courseId)) {
+    fail('prerequisites', 'A course cannot be its own prerequisite');
+  } else if (prerequisites) {
+    course.prerequisites = prerequisites;
+  }
+
+  return errors.length ? { errors } : { course: course as Course, errors };
+};
+
+/**
+ * Brings a course saved by an older version of the app, such as one kept in local storage, to the current shape.
+ * @param course - The saved course.
+ * @returns The course in its current shape, or `null` if it no longer passes validation.
+ */
+export const migrateStoredCourse = (course: Course): Course | null => validateCourseRecord(course, 0).course ?? null;
+
+/**
+ * Validates every record of a catalog, dropping invalid records and duplicate IDs.
+ * @param records - The raw records.
+ * @returns The valid courses and every error found.
+ */
+export const validateCatalog = (records: unknown[]): CatalogValidationResult => {
+  const courses: Course[] = [];
+  const errors: CatalogFieldError[] = [];
+  const seenIds = new Set<string>();
+
+  records.forEach((record, index) => {
+    const result = validateCourseRecord(record, index);
+    errors.push(...result.errors);
+    if (!result.course) return;
+
+    if (seenIds.has(result.course.id)) {
+      errors.push({ index, courseId: result.course.id, field: 'id', message: 'Duplicate ID; only the first course with this ID is kept' });
+      return;
+    }
+    seenIds.add(result.course.id);
+    courses.push(result.course);
+  });
+
+  return { courses, errors };
+};
@@ -0,0 +1,48 @@
+import type { ChatSession, Course, Locale } from '../types';
+import { getProvider } from './providers';
+import { classifyError } from './advisorErrors';
+import { withRetry } from './retry';
+import { selectRecentHistory } from './historyManager';
+
+/**
+ * The fewest courses a comparison makes sense for.
+ */
+export const MIN_COMPARED_COURSES = 2;
+
+/**
+ * The most courses that fit side by side in the comparison table.
+ */
+export const MAX_COMPARED_COURSES = 4;
+
+/**
+ * Whether a session has enough conversation for the advisor to judge courses against.
+ * @param session - The chat session, if any.
+ * @returns True once the learner has said something in it.
+ */
+export const canJudgeAgainstSession = (session: ChatSession | null | undefined): session is ChatSession =>
+  !!session && session.messages.some(message => message.sender === 'user' && !message.error);
+
+/**
+ * Asks the advisor which of the compared courses fits the learner best, given what they said in a chat session.
+ * Messages covered by the session's summary are sent as that summary, as in a normal turn.
+ * @param courses - The courses being compared.
+ * @param session - The chat session to judge them against.
+ * @param locale - The language to answer in.
+ * @returns The advisor's verdict as plain text.
+ * @throws {AdvisorError} If the request failed after any retries.
+ */
+export const getComparisonVerdict = async (courses: Course[], session: ChatSession, locale: Locale): Promise<string> => {
+  try {
+    return await withRetry(() => getProvider().completeText({
+      kind: 'comparison',
+      locale,
+      courses,
+      messages: selectRecentHistory(session.messages, session.summary),
+      summary: session.summary?.text,
+      profile: session.profile,
+    }));
+  } catch (error) {
+    console.error("Error comparing courses:", error);
+    throw classifyError(error);
+  }
+};
@@ -0,0 +1,63 @@
+import type { Course, CoursePrice, Locale } from '../types';
+
+/**
+ * The BCP 47 tag used to format numbers and dates for each app locale.
+ */
+const LOCALE_TAGS: Record<Locale, string> = { vi: 'vi-VN', en: 'en-US' };
+
+/**
+ * Formats a price in its currency, e.g. `1.490.000 ₫` or `$49.00`.
+ * @param price - The price. Callers show their own label for free courses.
+ * @param locale - The app locale.
+ * @returns The formatted price.
+ */
+export const formatPrice = (price: CoursePrice, locale: Locale): string => {
+  try {
+    return new Intl.NumberFormat(LOCALE_TAGS[locale], { style: 'currency', currency: price.currency }).format(price.amount);
+  } catch {
+    // An unknown currency code; show the raw values rather than nothing.
+    return `${price.amount} ${price.currency}`;
+  }
+};
+
+/**
+ * Formats a `YYYY-MM-DD` date, e.g. `Nov 3, 2026` or `3 thg 11, 2026`.
+ * @param date - The date.
+ * @param locale - The app locale.
+ * @returns The formatted date.
+ */
+export const formatCourseDate = (date: string, locale: Locale): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(LOCALE_TAGS[locale], { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Names a language from its ISO 639-1 code, in the app locale, e.g. `Vietnamese` or `Tiếng Việt`.
+ * @param code - The language code.
+ * @param locale - The app locale.
+ * @returns The language name, or the code itself if it is unknown.
+ */
+export const formatLanguageName = (code: string, locale: Locale): string => {
+  try {
+    return new Intl.DisplayNames([LOCALE_TAGS[locale]], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+/**
+ * Today's date as `YYYY-MM-DD`, for comparing with course start dates.
+ */
+export const todayIsoDate = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Lists the start dates of a course that have not passed yet.
+ * @param course - The course.
+ * @param today - Today's date as `YYYY-MM-DD`.
+ * @returns The upcoming start dates, earliest first.
+ */
+export const getUpcomingStartDates = (course: Course, today: string = todayIsoDate()): string[] =>
+  (course.startDates ?? []).filter(date => date >= today);
+
+/**
+ * Checks whether a course is free. Courses without a price are not assumed to be free.
+ */
+export const isFreeCourse = (course: Course): boolean => course.price?.amount === 0;
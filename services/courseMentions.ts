@@ -0,0 +1,56 @@
+import type { Course } from '../types';
+import { getAllCourseTexts } from './localization';
+
+/**
+ * Titles shorter than this are too likely to be ordinary words to link.
+ */
+const MIN_TITLE_LENGTH = 4;
+
+/**
+ * A piece of text, with the course it names if it is a course mention.
+ */
+export interface TextSegment {
+  text: string;
+  course?: Course;
+}
+
+/**
+ * Finds the course IDs and titles mentioned in a text.
+ */
+export type CourseMentionFinder = (text: string) => TextSegment[];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Prepares a finder for mentions of the given courses by ID (`eco280`) or by title in any language.
+ * Matching ignores case and only accepts whole words; longer titles win over shorter ones they contain.
+ * @param courses - The courses that can be mentioned.
+ * @returns A function that splits a text into plain segments and course mentions.
+ */
+export const buildCourseMentionFinder = (courses: Course[]): CourseMentionFinder => {
+  const byName = new Map<string, Course>();
+  courses.forEach(course => {
+    byName.set(course.id.toLowerCase(), course);
+    getAllCourseTexts(course, 'title')
+      .filter(title => title.trim().length >= MIN_TITLE_LENGTH)
+      .forEach(title => {
+        if (!byName.has(title.trim().toLowerCase())) byName.set(title.trim().toLowerCase(), course);
+      });
+  });
+  if (byName.size === 0) return text => [{ text }];
+
+  const names = Array.from(byName.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${names.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+
+  return text => {
+    const segments: TextSegment[] = [];
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+      if (match.index > last) segments.push({ text: text.slice(last, match.index) });
+      segments.push({ text: match[0], course: byName.get(match[0].toLowerCase()) });
+      last = match.index + match[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last) });
+    return segments;
+  };
+};
@@ -0,0 +1,143 @@
+import type { Course } from '../types';
+import { getAllCourseTexts } from './localization';
+import { editDistance, foldText, splitWords } from './text';
+
+/**
+ * A searchable field of a course and how much a match in it counts.
+ */
+interface IndexedField {
+  weight: number;
+  words: Set<string>;
+}
+
+/**
+ * A course with its fields folded and split into words, ready to be searched.
+ */
+interface IndexedCourse {
+  course: Course;
+  fields: IndexedField[];
+}
+
+/**
+ * A catalog prepared for searching with `searchCourses`.
+ */
+export type CourseSearchIndex = IndexedCourse[];
+
+/**
+ * A course that matches a search query.
+ */
+export interface CourseSearchResult {
+  course: Course;
+  score: number;
+  /** The folded words of the course that matched a query term, for highlighting. */
+  matchedTerms: string[];
+}
+
+/**
+ * How a query term matched one field of a course.
+ */
+interface FieldMatch {
+  quality: number;
+  /** The words of the field the term matched. */
+  matched: string[];
+  /** Whether the match needed typo tolerance. */
+  fuzzy: boolean;
+}
+
+/**
+ * How much a match counts in each field: titles count most, then topics, then descriptions and the provider.
+ */
+const FIELD_WEIGHTS = { title: 3, topics: 2, description: 1 };
+
+/**
+ * How much each kind of match counts: a whole word, the start of a word, or a word with a typo.
+ */
+const MATCH_QUALITY = { exact: 1, prefix: 0.7, fuzzy: 0.5 };
+
+/**
+ * How many typos a query term of a given length may contain and still match.
+ */
+const maxTypos = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+/**
+ * Folds and splits the given texts into one set of words.
+ */
+const wordSet = (...texts: (string | undefined)[]): Set<string> =>
+  new Set(texts.flatMap(text => (text ? splitWords(foldText(text)) : [])));
+
+/**
+ * Prepares a catalog for searching. The texts in every language are indexed,
+ * so a course can be found in any of them whatever the interface language is.
+ * @param courses - The courses to index.
+ * @returns The search index.
+ */
+export const buildSearchIndex = (courses: Course[]): CourseSearchIndex =>
+  courses.map(course => ({
+    course,
+    fields: [
+      { weight: FIELD_WEIGHTS.title, words: wordSet(...getAllCourseTexts(course, 'title')) },
+      { weight: FIELD_WEIGHTS.topics, words: wordSet(...course.topics) },
+      { weight: FIELD_WEIGHTS.description, words: wordSet(...getAllCourseTexts(course, 'description'), course.provider) },
+    ],
+  }));
+
+/**
+ * Finds the best match for a query term among a field's words.
+ * @returns The quality of the best match and the words that achieved it, or `null` if nothing matched.
+ */
+const matchTerm = (term: string, words: Set<string>): FieldMatch | null => {
+  if (words.has(term)) return { quality: MATCH_QUALITY.exact, matched: [term], fuzzy: false };
+
+  const prefixed = [...words].filter(word => word.startsWith(term));
+  if (prefixed.length) return { quality: MATCH_QUALITY.prefix, matched: prefixed, fuzzy: false };
+
+  const typos = maxTypos(term);
+  if (!typos) return null;
+  let bestDistance = typos + 1;
+  let matched: string[] = [];
+  for (const word of words) {
+    const distance = editDistance(term, word, typos);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      matched = [word];
+    } else if (distance === bestDistance && distance <= typos) {
+      matched.push(word);
+    }
+  }
+  return matched.length ? { quality: MATCH_QUALITY.fuzzy / bestDistance, matched, fuzzy: true } : null;
+};
+
+/**
+ * Searches the catalog. Matching ignores case and diacritics, accepts the start of a word,
+ * and tolerates a typo in terms of four or more letters (two in terms of eight or more).
+ * Every query term must match; courses are ranked by how well and where the terms matched.
+ * @param index - The index built by `buildSearchIndex`.
+ * @param query - What the user typed.
+ * @returns The matching courses, best first. Equal scores keep their catalog order.
+ */
+export const searchCourses = (index: CourseSearchIndex, query: string): CourseSearchResult[] => {
+  const terms = [...new Set(splitWords(foldText(query)))];
+  if (!terms.length) return index.map(({ course }) => ({ course, score: 0, matchedTerms: [] }));
+
+  const results: CourseSearchResult[] = [];
+  index.forEach(({ course, fields }) => {
+    let score = 0;
+    const matchedTerms = new Set<string>();
+    const matchesEveryTerm = terms.every(term => {
+      const matches = fields
+        .map(({ weight, words }) => ({ weight, match: matchTerm(term, words) }))
+        .filter((entry): entry is { weight: number; match: FieldMatch } => !!entry.match);
+      // A term found as typed is not also counted as a typo of some other word.
+      const foundAsTyped = matches.some(({ match }) => !match.fuzzy);
+      const counted = foundAsTyped ? matches.filter(({ match }) => !match.fuzzy) : matches;
+      counted.forEach(({ weight, match }) => {
+        score += weight * match.quality;
+        match.matched.forEach(word => matchedTerms.add(word));
+      });
+      return counted.length > 0;
+    });
+    if (matchesEveryTerm) results.push({ course, score, matchedTerms: [...matchedTerms] });
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+};
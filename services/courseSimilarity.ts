@@ -0,0 +1,156 @@
+import type { Course } from '../types';
+import { COURSE_LEVELS } from './catalogValidation';
+import { foldText } from './text';
+import { tokenize } from './retrieval';
+
+/**
+ * How much each signal counts towards the similarity of two courses. They add up to 1.
+ */
+const SIGNAL_WEIGHTS = {
+  topics: 0.4,
+  text: 0.3,
+  category: 0.2,
+  level: 0.1,
+};
+
+/**
+ * The similarity below which two courses are not worth suggesting as related.
+ */
+const MIN_SIMILARITY = 0.15;
+
+/**
+ * A course prepared for comparison with the rest of the catalog.
+ */
+interface IndexedCourse {
+  course: Course;
+  /** The folded topics, so `Kinh tế` and `kinh te` count as the same topic. */
+  topics: Set<string>;
+  /** The TF-IDF weights of the words in the title and descriptions, scaled to unit length. */
+  textVector: Map<string, number>;
+  levelRank: number;
+}
+
+/**
+ * The catalog prepared for finding related courses.
+ */
+export interface SimilarityIndex {
+  entries: IndexedCourse[];
+  byId: Map<string, IndexedCourse>;
+}
+
+/**
+ * A course related to another, with what they have in common.
+ */
+export interface SimilarCourse {
+  course: Course;
+  /** The similarity, from 0 for nothing in common to 1. */
+  score: number;
+  /** The topics both courses cover, as written on the suggested course. */
+  sharedTopics: string[];
+}
+
+/**
+ * Prepares the catalog for finding related courses: topic sets, level ranks and TF-IDF vectors of the course text.
+ * Only the source-language text is used, so courses compare the same way whatever the interface language.
+ * @param courses - The courses to index.
+ * @returns The index.
+ */
+export const buildSimilarityIndex = (courses: Course[]): SimilarityIndex => {
+  const documents = courses.map(course => tokenize([course.title, course.description, course.longDescription].join(' ')));
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(doc => new Set(doc).forEach(token => documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1)));
+
+  const entries = courses.map((course, index) => {
+    const termCounts = new Map<string, number>();
+    documents[index].forEach(token => termCounts.set(token, (termCounts.get(token) ?? 0) + 1));
+
+    const textVector = new Map<string, number>();
+    termCounts.forEach((count, token) => {
+      const idf = Math.log(courses.length / (documentFrequency.get(token) ?? 1));
+      if (idf > 0) textVector.set(token, count * idf);
+    });
+    const length = Math.sqrt(Array.from(textVector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+    textVector.forEach((weight, token) => textVector.set(token, weight / (length || 1)));
+
+    return {
+      course,
+      topics: new Set(course.topics.map(foldText)),
+      textVector,
+      levelRank: COURSE_LEVELS.indexOf(course.level),
+    };
+  });
+
+  return { entries, byId: new Map(entries.map(entry => [entry.course.id, entry])) };
+};
+
+/**
+ * Scores how alike two indexed courses are, from their shared topics, description text, category and level.
+ */
+const scoreSimilarity = (a: IndexedCourse, b: IndexedCourse): number => {
+  const sharedTopicCount = Array.from(a.topics).filter(topic => b.topics.has(topic)).length;
+  const topicOverlap = sharedTopicCount / (new Set([...a.topics, ...b.topics]).size || 1);
+
+  let textOverlap = 0;
+  a.textVector.forEach((weight, token) => {
+    textOverlap += weight * (b.textVector.get(token) ?? 0);
+  });
+
+  const sameCategory = a.course.category === b.course.category ? 1 : 0;
+  const levelCloseness = 1 - Math.abs(a.levelRank - b.levelRank) / (COURSE_LEVELS.length - 1);
+
+  return SIGNAL_WEIGHTS.topics * topicOverlap
+    + SIGNAL_WEIGHTS.text * textOverlap
+    + SIGNAL_WEIGHTS.category * sameCategory
+    + SIGNAL_WEIGHTS.level * levelCloseness;
+};
+
+/**
+ * Describes a candidate course in relation to the course it was found for.
+ */
+const toSimilarCourse = (source: IndexedCourse, candidate: IndexedCourse): SimilarCourse => ({
+  course: candidate.course,
+  score: Math.round(scoreSimilarity(source, candidate) * 100) / 100,
+  sharedTopics: candidate.course.topics.filter(topic => source.topics.has(foldText(topic))),
+});
+
+/**
+ * Finds the courses most like a given one, at any level.
+ * @param index - The catalog index.
+ * @param courseId - The course to find relatives of.
+ * @param limit - The maximum number of courses to return.
+ * @returns The related courses, most similar first; empty if the course is not in the index.
+ */
+export const findSimilarCourses = (index: SimilarityIndex, courseId: string, limit: number): SimilarCourse[] => {
+  const source = index.byId.get(courseId);
+  if (!source) return [];
+
+  return index.entries
+    .filter(candidate => candidate !== source)
+    .map(candidate => toSimilarCourse(source, candidate))
+    .filter(similar => similar.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Finds the courses to take after a given one: first those that list it as a prerequisite,
+ * then related courses one or more levels up.
+ * @param index - The catalog index.
+ * @param courseId - The course just taken.
+ * @param limit - The maximum number of courses to return.
+ * @returns The follow-up courses, best first; empty if the course is not in the index.
+ */
+export const findNextStepCourses = (index: SimilarityIndex, courseId: string, limit: number): SimilarCourse[] => {
+  const source = index.byId.get(courseId);
+  if (!source) return [];
+
+  const builtOn = index.entries.filter(candidate => candidate.course.prerequisites?.includes(courseId));
+  const harder = index.entries.filter(candidate => candidate.levelRank > source.levelRank && !builtOn.includes(candidate));
+
+  const byScore = (a: SimilarCourse, b: SimilarCourse) => b.score - a.score;
+  return [
+    ...builtOn.map(candidate => toSimilarCourse(source, candidate)).sort(byScore),
+    ...harder.map(candidate => toSimilarCourse(source, candidate)).filter(similar => similar.score >= MIN_SIMILARITY).sort(byScore),
+  ].slice(0, limit);
+};
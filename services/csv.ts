@@ -0,0 +1,85 @@
+/**
+ * Parses CSV text as described in RFC 4180: comma-separated fields, optionally wrapped in double quotes,
+ * with `""` standing for a quote inside a quoted field. Quoted fields may span lines.
+ * @param text - The CSV text.
+ * @returns The rows, each an array of raw field values. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  // Drop a byte order mark, which spreadsheet exports often add.
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Turns CSV rows into objects keyed by the header row.
+ * @param text - The CSV text, starting with a header row.
+ * @returns One object per data row. Missing trailing fields are left out.
+ */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map(column => column.trim());
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column && row[index] !== undefined) {
+        record[column] = row[index];
+      }
+    });
+    return record;
+  });
+};
+
+/**
+ * Quotes a field if it contains a comma, quote or line break, doubling any quotes inside it.
+ */
+const formatCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Writes rows as RFC 4180 CSV, the inverse of `parseCsv`.
+ * @param rows - The rows, each an array of field values.
+ * @returns The CSV text, with CRLF line endings.
+ */
+export const formatCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(formatCsvField).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,122 @@
+import type { Course, CourseDuration, DurationUnit } from '../types';
+
+/**
+ * The units a course duration can be given in.
+ */
+export const DURATION_UNITS: DurationUnit[] = ['day', 'week', 'month'];
+
+/**
+ * How many weeks one of each unit is worth.
+ */
+const WEEKS_PER_UNIT: Record<DurationUnit, number> = { day: 1 / 7, week: 1, month: 52 / 12 };
+
+/**
+ * The English and Vietnamese names of each unit, as written in free-text durations.
+ */
+const UNIT_NAMES: [RegExp, DurationUnit][] = [
+  [/^(weeks?|wks?|tuần)$/i, 'week'],
+  [/^(months?|tháng)$/i, 'month'],
+  [/^(days?|ngày)$/i, 'day'],
+];
+
+/**
+ * Matches a weekly workload written after the length, such as `5 hours/week`, `5 h per week` or `5 giờ/tuần`.
+ */
+const HOURS_PER_WEEK_PATTERN = /(\d+(?:[.,]\d+)?)\s*(?:hours?|hrs?|h|giờ)\s*(?:\/|per|a|mỗi)\s*(?:weeks?|wk|tuần)/iu;
+
+/**
+ * The most hours there are in a week.
+ */
+const HOURS_IN_WEEK = 7 * 24;
+
+/**
+ * Reads a number written with a dot or comma as its decimal separator.
+ */
+const readNumber = (text: string): number => Number(text.replace(',', '.'));
+
+/**
+ * Reads a free-text duration such as `6 Weeks`, `3 months`, `8 tuần` or `6 weeks, 5 hours/week`.
+ * This is how durations from catalogs written before they were structured are migrated.
+ * @param text - The duration text.
+ * @returns The structured duration, or `null` if the text cannot be read.
+ */
+export const parseDurationText = (text: string): CourseDuration | null => {
+  const match = text.trim().match(/^(\d+(?:[.,]\d+)?)\s*(\p{L}+)/u);
+  const unit = match && UNIT_NAMES.find(([pattern]) => pattern.test(match[2]))?.[1];
+  if (!match || !unit || !(readNumber(match[1]) > 0)) return null;
+
+  const hours = text.match(HOURS_PER_WEEK_PATTERN);
+  const hoursPerWeek = hours ? readNumber(hours[1]) : undefined;
+  return {
+    amount: readNumber(match[1]),
+    unit,
+    ...(hoursPerWeek && hoursPerWeek <= HOURS_IN_WEEK ? { hoursPerWeek } : {}),
+  };
+};
+
+/**
+ * Writes a duration as plain English text that `parseDurationText` reads back, e.g. `6 weeks, 5 hours/week`.
+ * Used for CSV exports, not for display.
+ * @param duration - The duration.
+ * @returns The duration text.
+ */
+export const formatDurationText = (duration: CourseDuration): string => {
+  const length = `${duration.amount} ${duration.unit}${duration.amount === 1 ? '' : 's'}`;
+  return duration.hoursPerWeek ? `${length}, ${duration.hoursPerWeek} hours/week` : length;
+};
+
+/**
+ * Reads a duration from a catalog record: either structured, or free text from an older catalog.
+ * @param value - The raw `duration` value.
+ * @returns The duration, or `null` if it is not a valid one.
+ */
+export const normalizeDuration = (value: unknown): CourseDuration | null => {
+  if (typeof value === 'string') return parseDurationText(value);
+  if (!value || typeof value !== 'object') return null;
+
+  const raw = value as Record<string, unknown>;
+  const amount = typeof raw.amount === 'string' && raw.amount.trim() ? Number(raw.amount) : raw.amount;
+  const hoursPerWeek = typeof raw.hoursPerWeek === 'string' && raw.hoursPerWeek.trim() ? Number(raw.hoursPerWeek) : raw.hoursPerWeek;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) return null;
+  if (!DURATION_UNITS.includes(raw.unit as DurationUnit)) return null;
+  if (hoursPerWeek !== undefined && hoursPerWeek !== null && hoursPerWeek !== ''
+    && (typeof hoursPerWeek !== 'number' || !(hoursPerWeek > 0) || hoursPerWeek > HOURS_IN_WEEK)) return null;
+
+  return {
+    amount,
+    unit: raw.unit as DurationUnit,
+    ...(typeof hoursPerWeek === 'number' ? { hoursPerWeek } : {}),
+  };
+};
+
+/**
+ * Converts a duration to weeks, counting a month as 52/12 weeks.
+ * @param duration - The duration.
+ * @returns The length in weeks.
+ */
+export const durationInWeeks = (duration: CourseDuration): number => duration.amount * WEEKS_PER_UNIT[duration.unit];
+
+/**
+ * The combined length of several courses taken one after another.
+ */
+export interface DurationTotal {
+  weeks: number;
+  /** The total study time, only when every course states its weekly hours. */
+  hours?: number;
+}
+
+/**
+ * Adds up the durations of courses taken one after another.
+ * @param courses - The courses.
+ * @returns The total weeks, and the total hours when every course states its weekly hours.
+ */
+export const sumDurations = (courses: Course[]): DurationTotal => {
+  const weeks = courses.reduce((total, course) => total + durationInWeeks(course.duration), 0);
+  const hasAllHours = courses.length > 0 && courses.every(course => course.duration.hoursPerWeek);
+  return {
+    weeks,
+    ...(hasAllHours
+      ? { hours: courses.reduce((total, course) => total + durationInWeeks(course.duration) * course.duration.hoursPerWeek!, 0) }
+      : {}),
+  };
+};
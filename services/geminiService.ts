@@ -1,171 +1,230 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { Course, ChatMessage, Locale } from '../types';
+import type { Course, ChatMessage, Locale, RetrievalMatch, LearnerProfile, ConversationSummary, ToolTraceEntry } from '../types';
+import { getProvider } from './providers';
+import type { AdvisorTurnRequest, GeminiResponse, ToolRound } from './providers';
+import { parseAdvisorJson } from './providers/parseResponse';
+import { extractPartialStringField } from './streamingJson';
+import { shortlistCourses } from './retrieval';
+import { validateAdvisorResponse, describeIssuesForModel, sanitizeAdvisorResponse } from './responseValidation';
+import { recordRepair } from './repairLog';
+import { AdvisorError, classifyError } from './advisorErrors';
+import { withRetry } from './retry';
+import { selectRecentHistory } from './historyManager';
+import { executeCatalogTool, isCatalogToolName } from './catalogTools';
 
-if (!import.meta.env.VITE_GEMINI_API_KEY) {
-  throw new Error("VITE_GEMINI_API_KEY environment variable not set");
-}
+/**
+ * How many corrective re-prompts a single turn may use before falling back to sanitizing.
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * How many rounds of tool calls a single turn may make before the model is told to answer.
+ */
+const MAX_TOOL_ROUNDS = 4;
+
+export type { GeminiLearningPath, GeminiRecommendation, GeminiResponse } from './providers';
 
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY });
+/**
+ * Optional behaviour for a single advisor turn.
+ */
+export interface AiResponseOptions {
+  /**
+   * When provided, the response is streamed and this is called with the `chatResponse` text received so far.
+   * Ignored when `useTools` is set, because tool-using turns are not streamed.
+   */
+  onPartialResponse?: (partialText: string) => void;
+  /**
+   * When set, only the `retrievalTopN` courses most relevant to the conversation are sent to the model.
+   */
+  retrievalTopN?: number;
+  /**
+   * Called with the retrieval shortlist, for debugging which courses the model saw.
+   */
+  onShortlist?: (matches: RetrievalMatch[]) => void;
+  /**
+   * What is known about the learner, including their own corrections.
+   */
+  profile?: LearnerProfile;
+  /**
+   * The session's running summary. The messages it covers are sent as the summary instead of verbatim.
+   */
+  summary?: ConversationSummary;
+  /**
+   * When set, the model looks courses up with the catalog tools instead of receiving the shortlist in its prompt.
+   */
+  useTools?: boolean;
+  /**
+   * Called after each catalog tool call, for the audit trace.
+   */
+  onToolCall?: (entry: ToolTraceEntry) => void;
+}
 
 /**
- * Defines the JSON schema for the conversational response from the Gemini API.
- * This schema allows the AI to return either a follow-up question or final recommendations.
+ * Streams a turn from the provider, reporting the `chatResponse` text as it arrives.
+ * The structured fields are only parsed once the whole document has been received.
+ * @param request - The turn request.
+ * @param onPartialResponse - Called whenever more `chatResponse` text is available.
+ * @returns The fully parsed response.
+ * @throws {AdvisorError} Carrying the text received so far, if the stream fails after part of it was delivered.
  */
-const conversationalSchema = {
-  type: Type.OBJECT,
-  properties: {
-    chatResponse: {
-      type: Type.STRING,
-      description: "A friendly, conversational response to the user. This will be either the next question or the text introducing the recommendations."
-    },
-    recommendations: {
-      type: Type.ARRAY,
-      description: "An array of 2-3 recommended courses. This should ONLY be included when enough information has been gathered to make a recommendation.",
-      items: {
-        type: Type.OBJECT,
-        required: ["courseId", "reasoning"],
-        properties: {
-          courseId: {
-            type: Type.STRING,
-            description: "The ID of the recommended course from the provided catalog."
-          },
-          reasoning: {
-            type: Type.STRING,
-            description: "A detailed but concise explanation of why this specific course is a good fit for the user, referencing the conversation history."
-          }
-        }
+const streamAiResponse = async (
+  request: AdvisorTurnRequest,
+  onPartialResponse: (partialText: string) => void
+): Promise<GeminiResponse> => {
+  let buffer = '';
+  let partialText = '';
+
+  try {
+    for await (const chunk of getProvider().streamTurn(request)) {
+      buffer += chunk;
+      const text = extractPartialStringField(buffer, 'chatResponse');
+      if (text !== null && text !== partialText) {
+        partialText = text;
+        onPartialResponse(partialText);
       }
-    },
-    isComplete: {
-      type: Type.BOOLEAN,
-      description: "Set to true when you provide the initial set of recommendations. The user may still ask follow-up questions. Otherwise, set to false."
     }
-  },
-  required: ['chatResponse', 'isComplete']
+    return parseAdvisorJson(buffer);
+  } catch (error) {
+    const advisorError = classifyError(error);
+    if (partialText) {
+      throw new AdvisorError(advisorError.kind, advisorError.message, { cause: error, partialText });
+    }
+    throw advisorError;
+  }
 };
 
-
 /**
- * Represents a single course recommendation from the AI.
+ * Runs a turn in which the model may call the catalog tools.
+ * Each requested call is executed locally against the catalog and its result sent back,
+ * until the model gives its final response or runs out of tool rounds.
+ * @param request - The turn request, without `toolUse`.
+ * @param catalog - The full catalog the tools query.
+ * @param onToolCall - Called after each tool call.
+ * @returns The model's final response.
+ * @throws {AdvisorError} If the model still calls tools after being told to answer.
  */
-export interface GeminiRecommendation {
-  courseId: string;
-  reasoning: string;
-}
+const runToolLoop = async (
+  request: AdvisorTurnRequest,
+  catalog: Course[],
+  onToolCall?: (entry: ToolTraceEntry) => void
+): Promise<GeminiResponse> => {
+  const rounds: ToolRound[] = [];
+
+  while (true) {
+    const allowCalls = rounds.length < MAX_TOOL_ROUNDS;
+    const step = await withRetry(() => getProvider().generateToolStep({ ...request, toolUse: { rounds, allowCalls } }));
+    if (step.kind === 'response') {
+      return step.response;
+    }
+    if (!allowCalls) {
+      throw new AdvisorError('schema', `The AI kept calling tools after ${MAX_TOOL_ROUNDS} rounds.`);
+    }
+
+    const results = step.calls.map(call => {
+      const { result, resultCount } = executeCatalogTool(call.name, call.args, catalog);
+      if (isCatalogToolName(call.name)) {
+        onToolCall?.({ tool: call.name, args: call.args, resultCount });
+      }
+      return result;
+    });
+    rounds.push({ calls: step.calls, results });
+  }
+};
 
 /**
- * Represents the full, parsed JSON response from the Gemini API for a single turn in the conversation.
+ * Validates a response against the full catalog and, if it breaks the output rules,
+ * re-prompts the model with a description of the problems. Every repair is logged.
+ * If the problems persist after `MAX_REPAIR_ATTEMPTS`, the response is sanitized instead.
+ * @param request - The turn request that produced the response.
+ * @param response - The response to check.
+ * @param catalog - The full catalog, which may be larger than the shortlist in the request.
+ * @param hasPriorRecommendations - Whether recommendations were given earlier, including in summarized messages.
+ * @returns A response that only references real courses and follows the recommendation rules.
  */
-export interface GeminiResponse {
-  chatResponse: string;
-  recommendations?: GeminiRecommendation[];
-  isComplete: boolean;
-}
+const repairAiResponse = async (
+  request: AdvisorTurnRequest,
+  response: GeminiResponse,
+  catalog: Course[],
+  hasPriorRecommendations: boolean
+): Promise<GeminiResponse> => {
+  let current = response;
+  let issues = validateAdvisorResponse(current, catalog, hasPriorRecommendations);
+
+  for (let attempt = 1; issues.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const correctiveHistory: ChatMessage[] = [
+      ...request.chatHistory,
+      { sender: 'ai', text: JSON.stringify(current) },
+      { sender: 'user', text: describeIssuesForModel(issues) },
+    ];
+
+    try {
+      current = await getProvider().generateTurn({ ...request, chatHistory: correctiveHistory });
+    } catch (error) {
+      console.error("Corrective re-prompt failed:", error);
+      recordRepair({ timestamp: Date.now(), attempt, issues, resolved: false });
+      break;
+    }
 
+    const remaining = validateAdvisorResponse(current, catalog, hasPriorRecommendations);
+    recordRepair({ timestamp: Date.now(), attempt, issues, resolved: remaining.length === 0 });
+    issues = remaining;
+  }
+
+  return issues.length > 0 ? sanitizeAdvisorResponse(current, catalog) : current;
+};
 
 /**
- * Sends the current conversation history to the Gemini API and gets the next response.
+ * Sends the current conversation history to the configured AI provider and gets the next response.
  * The AI will decide whether to ask another question or provide recommendations.
- * @param chatHistory - The entire list of messages in the current chat.
+ * Transient failures are retried with exponential backoff, and responses that reference unknown courses
+ * or break the recommendation rules are repaired before being returned.
+ * @param chatHistory - The entire list of messages in the current chat. Failed turns (messages with an `error`) are left out,
+ *   and messages covered by `options.summary` are sent as that summary.
  * @param courses - The complete list of available courses.
  * @param locale - The current language of the user.
+ * @param options - Optional streaming, retrieval, profile, summary and tool settings.
  * @returns A promise that resolves to a `GeminiResponse` object containing the AI's next chat message and optional recommendations.
+ * @throws {AdvisorError} If the turn failed after any retries; `partialText` is set when part of a streamed reply was delivered.
  */
 export const getAiResponse = async (
   chatHistory: ChatMessage[],
   courses: Course[],
-  locale: Locale
+  locale: Locale,
+  options: AiResponseOptions = {}
 ): Promise<GeminiResponse> => {
-  const model = "gemini-2.5-flash";
-  
-  // To save tokens and avoid confusion, we only send the English fields to the model.
-  const coursesForAI = courses.map(c => ({
-      id: c.id,
-      title: c.title,
-      provider: c.provider,
-      description: c.description,
-      longDescription: c.longDescription,
-      duration: c.duration,
-      level: c.level,
-      topics: c.topics,
-  }));
-
-  const systemInstruction_en = `You are a friendly and professional AI course advisor named NinjaGPT. Your goal is to help users find the best training courses by having a natural conversation. The full course catalog is provided below.
-
-**Your process:**
-1. Start by greeting the user and asking for their name.
-2. Ask clarifying questions one at a time to gather information about their background, experience, and learning goals (e.g., age, education, field of study, job experience, what they want to learn).
-3. If a user's answer is irrelevant, gently steer them back on topic.
-4. Once you feel you have gathered enough information, analyze their profile against the course catalog.
-5. Provide 2-3 course recommendations. After giving recommendations, remain available to answer follow-up questions about the courses or to start a new search. Do not end the conversation.
-
-**JSON Output Rules:**
-You MUST respond in JSON format matching the provided schema.
-- 'chatResponse' (string, required): Your conversational message to the user. This will be either your next question or the text introducing your recommendations.
-- 'recommendations' (array, optional): ONLY include this field when you have gathered enough information and are ready to recommend courses.
-- 'isComplete' (boolean, required): Set to 'true' ONLY when you are providing the first set of recommendations. Otherwise, set to 'false'.
-
-**Course Catalog:**
-${JSON.stringify(coursesForAI, null, 2)}
-`;
-
-  const systemInstruction_vi = `Bạn là một trợ lý tư vấn khóa học AI thông minh, chuyên nghiệp, lịch sự và thân thiện tên là NinjaGPT.
-
-Mục tiêu chính của bạn là hỗ trợ người dùng một cách ngắn gọn, dễ hiểu và hiệu quả. Luôn nói chuyện một cách tôn trọng và lịch sự. Sử dụng các hình thức xưng hô lịch sự trong tiếng Việt như “Dạ,” “Vâng ạ,” và luôn thể hiện ý định giúp đỡ một cách rõ ràng. Giọng điệu của bạn phải ấm áp và tôn trọng, nhưng không quá cứng nhắc.
-
-**Quy trình của bạn:**
-1. Bắt đầu bằng cách chào người dùng và hỏi tên của họ. Ví dụ: "Dạ, em chào anh/chị, em là NinjaGPT. Em có thể biết tên của anh/chị để tiện xưng hô không ạ?"
-2. Đặt các câu hỏi làm rõ từng câu một để thu thập thông tin về nền tảng, kinh nghiệm và mục tiêu học tập của họ (ví dụ: tuổi, trình độ học vấn, chuyên ngành, kinh nghiệm làm việc, những gì họ muốn học).
-3. Nếu câu trả lời của người dùng không liên quan, hãy nhẹ nhàng hướng họ trở lại chủ đề. Ví dụ, nếu bạn hỏi về kinh nghiệm và họ nói về món ăn yêu thích, bạn có thể nói: ‘Dạ nghe hấp dẫn quá ạ! Để giúp tìm khóa học phù hợp, anh/chị có thể chia sẻ một chút về kinh nghiệm chuyên môn hoặc học vấn của mình được không ạ?’
-4. Khi bạn cảm thấy có đủ thông tin, hãy phân tích hồ sơ của họ so với danh mục khóa học được cung cấp.
-5. Đưa ra 2-3 đề xuất khóa học. Sau khi đề xuất, hãy sẵn sàng trả lời các câu hỏi tiếp theo về các khóa học đó hoặc thảo luận về các chủ đề khác. Đừng kết thúc cuộc trò chuyện.
-
-**Quy tắc đầu ra JSON:**
-Bạn PHẢI trả lời ở định dạng JSON khớp với schema được cung cấp.
-- 'chatResponse' (string, bắt buộc): Tin nhắn trò chuyện của bạn gửi cho người dùng. Đây sẽ là câu hỏi tiếp theo của bạn hoặc văn bản giới thiệu các đề xuất của bạn.
-- 'recommendations' (mảng, tùy chọn): CHỈ bao gồm trường này khi bạn đã thu thập đủ thông tin và sẵn sàng đề xuất các khóa học.
-- 'isComplete' (boolean, bắt buộc): Đặt thành 'true' khi bạn cung cấp các đề xuất lần đầu. Nếu không, hãy đặt thành 'false'.
-
-**Danh mục khóa học (Course Catalog):**
-${JSON.stringify(coursesForAI, null, 2)}
-`;
-
-  const systemInstruction = locale === 'vi' ? systemInstruction_vi : systemInstruction_en;
-  
-  const conversationHistory = chatHistory.map(message => ({
-    role: message.sender === 'ai' ? 'model' : 'user',
-    parts: [{ text: message.text || '' }],
-  }));
+  // Retrieval and the recommendation rules look at the whole conversation; only the model gets the trimmed history.
+  const fullHistory = chatHistory.filter(message => !message.error);
+  const hasPriorRecommendations = fullHistory.some(message => message.recommendedCourses?.length || message.learningPath);
+
+  let candidates = courses;
+  if (options.retrievalTopN && options.retrievalTopN < courses.length) {
+    const shortlist = shortlistCourses(fullHistory, courses, options.retrievalTopN);
+    candidates = shortlist.courses;
+    if (!options.useTools) {
+      options.onShortlist?.(shortlist.matches);
+    }
+  }
 
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: conversationHistory,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: conversationalSchema,
-        temperature: 0.5,
-      },
-    });
+  // With tools, the shortlist is only used if the response has to be repaired.
+  const request: AdvisorTurnRequest = {
+    chatHistory: selectRecentHistory(chatHistory, options.summary),
+    courses: candidates,
+    locale,
+    profile: options.profile,
+    summary: options.summary?.text,
+  };
 
-    const jsonText = response.text.trim();
-    const parsedResponse: GeminiResponse = JSON.parse(jsonText);
-    
-    if (!parsedResponse.chatResponse) {
-        throw new Error("Invalid response structure from AI: chatResponse missing.");
+  try {
+    let response: GeminiResponse;
+    if (options.useTools) {
+      response = await runToolLoop({ ...request, courses: [] }, courses, options.onToolCall);
+    } else {
+      response = await withRetry(() => options.onPartialResponse
+        ? streamAiResponse(request, options.onPartialResponse)
+        : getProvider().generateTurn(request));
     }
-    
-    return parsedResponse;
-
+    return await repairAiResponse(request, response, courses, hasPriorRecommendations);
   } catch (error) {
-    console.error("Error fetching response from Gemini API:", error);
-    const errorMessage = locale === 'vi' 
-      ? "Em xin lỗi, hiện tại em đang gặp sự cố kết nối. Anh/chị vui lòng thử lại sau một lát ạ." 
-      : "I'm having a little trouble connecting right now. Please try sending your message again in a moment.";
-    return {
-      chatResponse: errorMessage,
-      isComplete: false,
-    };
+    console.error("Error fetching response from AI provider:", error);
+    throw classifyError(error);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,79 @@
+import type { AdvisorSettings, ChatMessage, ConversationSummary, Locale } from '../types';
+import { getProvider } from './providers';
+
+/**
+ * Selects the messages to send to the model verbatim: everything after the part the summary covers, minus failed turns.
+ * @param messages - All messages in the session.
+ * @param summary - The session's summary, if it has one.
+ * @returns The messages to send.
+ */
+export const selectRecentHistory = (messages: ChatMessage[], summary?: ConversationSummary): ChatMessage[] =>
+  messages.slice(summary?.coveredMessageCount ?? 0).filter(message => !message.error);
+
+/**
+ * Keeps a summary only if it describes the start of the given branch, i.e. the branch still contains the last message it covers.
+ * Editing a covered message or switching to a branch that left it behind therefore drops the summary, and it is rebuilt on the next turn.
+ * @param summary - The session's summary, if it has one.
+ * @param messages - The messages on the selected branch.
+ * @returns The summary, or `undefined` if it belongs to another branch.
+ */
+export const keepSummaryForBranch = (summary: ConversationSummary | undefined, messages: ChatMessage[]): ConversationSummary | undefined =>
+  summary && messages[summary.coveredMessageCount - 1]?.id === summary.lastCoveredId ? summary : undefined;
+
+/**
+ * Works out how far a refreshed summary should reach, if one is due.
+ * A refresh is due once more than `summaryThreshold` messages lie beyond the summary;
+ * it then covers everything except the latest `recentMessageCount` messages.
+ * @param messageCount - The number of messages in the session.
+ * @param summary - The session's summary, if it has one.
+ * @param settings - The history thresholds.
+ * @returns The new `coveredMessageCount`, or `null` if the summary is still fresh enough.
+ */
+export const getSummaryTarget = (
+  messageCount: number,
+  summary: ConversationSummary | undefined,
+  settings: Pick<AdvisorSettings, 'recentMessageCount' | 'summaryThreshold'>
+): number | null => {
+  const covered = summary?.coveredMessageCount ?? 0;
+  if (messageCount - covered <= settings.summaryThreshold) {
+    return null;
+  }
+  const target = messageCount - settings.recentMessageCount;
+  return target > covered ? target : null;
+};
+
+/**
+ * Folds older messages into the session's running summary once the unsummarized part grows past the threshold.
+ * A failed refresh is logged and the previous summary is kept, so the turn can still go ahead with a longer history.
+ * @param messages - All messages in the session, ending with the user's latest message.
+ * @param summary - The session's current summary, if any.
+ * @param settings - The history thresholds.
+ * @param locale - The language the summary should be written in.
+ * @returns The refreshed summary, or the current one if no refresh was due or it failed.
+ */
+export const refreshSummary = async (
+  messages: ChatMessage[],
+  summary: ConversationSummary | undefined,
+  settings: Pick<AdvisorSettings, 'recentMessageCount' | 'summaryThreshold'>,
+  locale: Locale
+): Promise<ConversationSummary | undefined> => {
+  const target = getSummaryTarget(messages.length, summary, settings);
+  if (target === null) {
+    return summary;
+  }
+
+  const toFold = messages.slice(summary?.coveredMessageCount ?? 0, target).filter(message => !message.error);
+
+  try {
+    const text = toFold.length
+      ? await getProvider().completeText({ kind: 'summary', locale, previousSummary: summary?.text, messages: toFold })
+      : summary?.text ?? '';
+    if (!text) {
+      return summary;
+    }
+    return { text, coveredMessageCount: target, lastCoveredId: messages[target - 1].id, updatedAt: Date.now() };
+  } catch (error) {
+    console.error("Failed to refresh the conversation summary:", error);
+    return summary;
+  }
+};
@@ -0,0 +1,54 @@
+import type { LearnerProfile, LearnerProfileField } from '../types';
+
+/**
+ * The profile fields, in the order the advisor asks about them.
+ */
+export const LEARNER_PROFILE_FIELDS: LearnerProfileField[] = ['name', 'age', 'education', 'fieldOfStudy', 'experience', 'goals'];
+
+/**
+ * Applies the model's profile update for a turn.
+ * Fields the user corrected by hand are kept as they are, and blank values are ignored.
+ * @param profile - The current profile.
+ * @param update - The fields the model extracted from the latest message.
+ * @returns The merged profile.
+ */
+export const mergeProfileUpdate = (
+  profile: LearnerProfile = {},
+  update: Partial<Record<LearnerProfileField, string>> = {}
+): LearnerProfile => {
+  const userEditedFields = profile.userEditedFields ?? [];
+  const merged: LearnerProfile = { ...profile };
+
+  LEARNER_PROFILE_FIELDS.forEach(field => {
+    const value = update[field]?.trim();
+    if (value && !userEditedFields.includes(field)) {
+      merged[field] = value;
+    }
+  });
+
+  return merged;
+};
+
+/**
+ * Records a correction the user made to their profile, locking the field against model updates.
+ * Clearing a field removes the value and the lock, so the advisor may ask about it again.
+ * @param profile - The current profile.
+ * @param field - The corrected field.
+ * @param value - The user's value.
+ * @returns The corrected profile.
+ */
+export const applyProfileCorrection = (
+  profile: LearnerProfile = {},
+  field: LearnerProfileField,
+  value: string
+): LearnerProfile => {
+  const trimmed = value.trim();
+  const otherEdits = (profile.userEditedFields ?? []).filter(edited => edited !== field);
+
+  if (!trimmed) {
+    const { [field]: _removed, ...rest } = profile;
+    return { ...rest, userEditedFields: otherEdits };
+  }
+
+  return { ...profile, [field]: trimmed, userEditedFields: [...otherEdits, field] };
+};
@@ -0,0 +1,88 @@
+import type { Course, LearningPath, LearningPathStep } from '../types';
+import type { GeminiRecommendation } from './providers';
+import { sumDurations } from './duration';
+
+/**
+ * The fewest and most courses a learning path from the advisor may have, before prerequisites are added.
+ */
+export const MIN_PATH_STEPS = 2;
+export const MAX_PATH_STEPS = 6;
+
+/**
+ * The order levels are taken in when prerequisites do not decide.
+ */
+const LEVEL_RANK: Record<Course['level'], number> = { Beginner: 0, Intermediate: 1, Advanced: 2 };
+
+/**
+ * Orders courses so every course comes after its prerequisites, adding any prerequisites that are missing.
+ * Among courses whose prerequisites are all placed, lower levels come first, then the order they were given in.
+ * Prerequisites that are not in the catalog are ignored, and a prerequisite cycle is broken by level.
+ * @param courseIds - The courses to sequence.
+ * @param catalog - The catalog to resolve IDs and prerequisites from.
+ * @returns The sequenced courses, and the IDs of those added as prerequisites.
+ */
+export const sequenceCourses = (courseIds: string[], catalog: Course[]): { courses: Course[]; addedIds: Set<string> } => {
+  const byId = new Map(catalog.map(course => [course.id, course]));
+  const included: Course[] = [];
+  const addedIds = new Set<string>();
+
+  // Walk the prerequisites depth-first, so each requested course is followed by what it needs.
+  const include = (id: string, isPrerequisite: boolean) => {
+    const course = byId.get(id);
+    if (!course || included.includes(course)) return;
+    included.push(course);
+    if (isPrerequisite) addedIds.add(id);
+    (course.prerequisites ?? []).forEach(prerequisiteId => include(prerequisiteId, true));
+  };
+  courseIds.forEach(id => include(id, false));
+  // A requested course reached first as another's prerequisite was still requested.
+  courseIds.forEach(id => addedIds.delete(id));
+
+  const includedIds = new Set(included.map(course => course.id));
+  const pendingPrerequisites = new Map(included.map(course => [
+    course.id,
+    new Set((course.prerequisites ?? []).filter(id => includedIds.has(id))),
+  ]));
+  const byPriority = (a: Course, b: Course) =>
+    LEVEL_RANK[a.level] - LEVEL_RANK[b.level] || included.indexOf(a) - included.indexOf(b);
+
+  const ordered: Course[] = [];
+  let remaining = [...included];
+  while (remaining.length) {
+    const ready = remaining.filter(course => pendingPrerequisites.get(course.id)!.size === 0);
+    const next = (ready.length ? ready : remaining).sort(byPriority)[0];
+    ordered.push(next);
+    remaining = remaining.filter(course => course !== next);
+    pendingPrerequisites.forEach(prerequisites => prerequisites.delete(next.id));
+  }
+
+  return { courses: ordered, addedIds };
+};
+
+/**
+ * Builds a learning path from the courses the advisor proposed: resolves them in the catalog,
+ * adds missing prerequisites, puts the courses in a workable order and adds up the total time.
+ * @param goal - The goal the path leads to.
+ * @param proposedSteps - The advisor's courses with its reasoning, in its order.
+ * @param catalog - The catalog to resolve courses from.
+ * @returns The path, or `null` if fewer than two of its courses exist.
+ */
+export const buildLearningPath = (goal: string, proposedSteps: GeminiRecommendation[], catalog: Course[]): LearningPath | null => {
+  const reasoningById = new Map(proposedSteps.map(step => [step.courseId, step.reasoning]));
+  const { courses, addedIds } = sequenceCourses(proposedSteps.map(step => step.courseId), catalog);
+  if (courses.length < MIN_PATH_STEPS) return null;
+
+  const steps: LearningPathStep[] = courses.map(course => ({
+    course,
+    reasoning: reasoningById.get(course.id),
+    ...(addedIds.has(course.id) ? { addedAsPrerequisite: true } : {}),
+  }));
+  const total = sumDurations(courses);
+
+  return {
+    goal,
+    steps,
+    totalWeeks: Math.round(total.weeks),
+    ...(total.hours !== undefined ? { totalHours: Math.round(total.hours) } : {}),
+  };
+};
@@ -0,0 +1,106 @@
+import type { Course, CourseTranslation, LocalizedCourseField } from '../types';
+
+/**
+ * The language of a course's own `title`, `description` and `longDescription`,
+ * and the last step of every fallback chain.
+ */
+export const CONTENT_SOURCE_LOCALE = 'en';
+
+/**
+ * The course fields that can be translated.
+ */
+export const LOCALIZED_COURSE_FIELDS: LocalizedCourseField[] = ['title', 'description', 'longDescription'];
+
+/**
+ * The locales the catalog is expected to be translated into, besides the source language.
+ * The coverage report lists courses missing each of these even if no course has them yet.
+ */
+export const EXPECTED_TRANSLATION_LOCALES = ['vi'];
+
+/**
+ * Normalizes a locale code such as `vi`, `pt-br` or `pt_BR` to `vi` or `pt-BR`.
+ * @param code - The locale code.
+ * @returns The normalized code, or `null` if it is not a language code with an optional region.
+ */
+export const normalizeLocaleCode = (code: string): string | null => {
+  const match = code.trim().match(/^([a-z]{2})(?:[-_]([a-z]{2}))?$/i);
+  if (!match) return null;
+  return match[2] ? `${match[1].toLowerCase()}-${match[2].toUpperCase()}` : match[1].toLowerCase();
+};
+
+/**
+ * Lists the locales to try, in order, when showing content in a locale:
+ * the locale itself, its language without the region, then the source language.
+ * @param locale - The requested locale, e.g. `pt-BR`.
+ * @returns The fallback chain, e.g. `['pt-BR', 'pt', 'en']`.
+ */
+export const getLocaleFallbackChain = (locale: string): string[] => {
+  const normalized = normalizeLocaleCode(locale) ?? CONTENT_SOURCE_LOCALE;
+  return Array.from(new Set([normalized, normalized.split('-')[0], CONTENT_SOURCE_LOCALE]));
+};
+
+/**
+ * Reads one course field in a locale, following the fallback chain down to the course's own text.
+ * @param course - The course.
+ * @param field - The field to read.
+ * @param locale - The locale to show it in.
+ * @returns The best available text.
+ */
+export const resolveCourseText = (course: Course, field: LocalizedCourseField, locale: string): string => {
+  for (const candidate of getLocaleFallbackChain(locale)) {
+    const text = candidate === CONTENT_SOURCE_LOCALE ? course[field] : course.translations?.[candidate]?.[field];
+    if (text) return text;
+  }
+  return course[field];
+};
+
+/**
+ * Reads every translatable field of a course in a locale.
+ * @param course - The course.
+ * @param locale - The locale to show it in.
+ * @returns The course's title, description and long description in the best available language.
+ */
+export const localizeCourse = (course: Course, locale: string): Required<CourseTranslation> => ({
+  title: resolveCourseText(course, 'title', locale),
+  description: resolveCourseText(course, 'description', locale),
+  longDescription: resolveCourseText(course, 'longDescription', locale),
+});
+
+/**
+ * Collects every text a course has for a field, in all languages, e.g. for search.
+ * @param course - The course.
+ * @param field - The field.
+ * @returns The source text followed by its translations.
+ */
+export const getAllCourseTexts = (course: Course, field: LocalizedCourseField): string[] => [
+  course[field],
+  ...Object.values(course.translations ?? {}).map(translation => translation?.[field]).filter((text): text is string => !!text),
+];
+
+/**
+ * How well the catalog is translated into one locale.
+ */
+export interface TranslationCoverage {
+  locale: string;
+  /** How many courses have every translatable field in this locale. */
+  completeCount: number;
+  /** The courses missing some or all fields, with the fields they miss. */
+  missing: { course: Course; fields: LocalizedCourseField[] }[];
+}
+
+/**
+ * Reports, for each expected locale and each locale any course is translated into, which courses lack a translation.
+ * @param courses - The courses to check.
+ * @returns The coverage per locale, sorted by locale code.
+ */
+export const getTranslationCoverage = (courses: Course[]): TranslationCoverage[] => {
+  const locales = new Set(EXPECTED_TRANSLATION_LOCALES);
+  courses.forEach(course => Object.keys(course.translations ?? {}).forEach(locale => locales.add(locale)));
+
+  return Array.from(locales).sort().map(locale => {
+    const missing = courses
+      .map(course => ({ course, fields: LOCALIZED_COURSE_FIELDS.filter(field => !course.translations?.[locale]?.[field]) }))
+      .filter(({ fields }) => fields.length > 0);
+    return { locale, completeCount: courses.length - missing.length, missing };
+  });
+};
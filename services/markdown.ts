@@ -0,0 +1,340 @@
+/**
+ * A span of text within a Markdown block.
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+/**
+ * How a table column is aligned.
+ */
+export type MarkdownAlignment = 'left' | 'center' | 'right' | null;
+
+/**
+ * A block of a Markdown document.
+ */
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'table'; align: MarkdownAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const BARE_URL = /^https?:\/\/[^\s<>]*[^\s<>.,:;"')\]!?*_~]/;
+
+/**
+ * The URL schemes links may use. Anything else, such as `javascript:`, is shown as plain text.
+ */
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+/**
+ * Checks a link target, allowing only web and e-mail links.
+ * @param href - The link target as written.
+ * @returns The target, or `null` if it is not safe to follow.
+ */
+export const sanitizeHref = (href: string): string | null => {
+  const trimmed = href.trim();
+  return SAFE_LINK.test(trimmed) ? trimmed : null;
+};
+
+const indentOf = (line: string): number => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+const isBlank = (line: string): boolean => !line.trim();
+
+/**
+ * Splits a table row into its cells, dropping the outer pipes and keeping escaped ones.
+ */
+const splitTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && TABLE_SEPARATOR.test(lines[index + 1]) && lines[index + 1].includes('-');
+
+/**
+ * Whether a line starts a block other than a paragraph, and so ends the paragraph before it.
+ */
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  return HEADING.test(line) || RULE.test(line) || FENCE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, index);
+};
+
+/**
+ * Finds the closing delimiter of an emphasis span, skipping escapes, code spans and longer runs of the same character.
+ * @returns The index of the closing delimiter, or -1.
+ */
+const findClosing = (text: string, from: number, delimiter: string): number => {
+  for (let j = from; j < text.length; j++) {
+    if (text[j] === '\\') { j++; continue; }
+    if (text[j] === '`') {
+      const end = text.indexOf('`', j + 1);
+      if (end === -1) return -1;
+      j = end;
+      continue;
+    }
+    if (!text.startsWith(delimiter, j)) continue;
+    const longer = text[j + delimiter.length] === delimiter[0] || (j > from && text[j - 1] === delimiter[0]);
+    if (delimiter.length === 1 && longer) {
+      while (text[j + 1] === delimiter[0]) j++;
+      continue;
+    }
+    if (!/\s/.test(text[j - 1])) return j;
+  }
+  return -1;
+};
+
+/**
+ * Parses the inline Markdown of a block: emphasis, code, links, bare URLs and line breaks.
+ * @param text - The text of the block.
+ * @returns The inline nodes.
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const rest = text.slice(i);
+    const previous = text[i - 1] ?? ' ';
+
+    if (char === '\\' && /[\\`*_~[\]()#|>+\-.!]/.test(text[i + 1] ?? '')) {
+      buffer += text[++i];
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + ticks.length, end).trim() });
+        i = end + ticks.length - 1;
+        continue;
+      }
+    }
+
+    const triple = rest.startsWith('***') ? '***' : rest.startsWith('___') ? '___' : null;
+    if (triple && !/\s/.test(text[i + 3] ?? ' ')) {
+      const end = findClosing(text, i + 3, triple);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'strong', children: [{ type: 'emphasis', children: parseInline(text.slice(i + 3, end)) }] });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    const double = rest.startsWith('**') ? '**' : rest.startsWith('__') ? '__' : rest.startsWith('~~') ? '~~' : null;
+    const single = !double && (char === '*' || char === '_') ? char : null;
+    const delimiter = double ?? single;
+    // Underscores inside words, as in snake_case, are not emphasis
+    const opens = delimiter && !/\s/.test(text[i + delimiter.length] ?? ' ') && !(char === '_' && /[\p{L}\p{N}]/u.test(previous));
+    if (delimiter && opens) {
+      const end = findClosing(text, i + delimiter.length, delimiter);
+      const closes = end !== -1 && !(char === '_' && /[\p{L}\p{N}]/u.test(text[end + delimiter.length] ?? ''));
+      if (closes) {
+        flush();
+        const children = parseInline(text.slice(i + delimiter.length, end));
+        const type = delimiter === '~~' ? 'strikethrough' : double ? 'strong' : 'emphasis';
+        nodes.push({ type, children });
+        i = end + delimiter.length - 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = rest.match(/^\[((?:\\.|[^\]\\])*)\]\(\s*<?([^\s()<>]*(?:\([^\s()]*\))?[^\s()<>]*)>?(?:\s+"[^"]*")?\s*\)/);
+      if (link) {
+        flush();
+        const href = sanitizeHref(link[2]);
+        const children = parseInline(link[1]);
+        if (href) nodes.push({ type: 'link', href, children });
+        else nodes.push(...children);
+        i += link[0].length - 1;
+        continue;
+      }
+    }
+
+    if (char === 'h' && !/[\p{L}\p{N}]/u.test(previous)) {
+      const url = rest.match(BARE_URL);
+      if (url) {
+        flush();
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length - 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+  }
+  flush();
+  return nodes;
+};
+
+/**
+ * Reads a list starting at `start`: consecutive items of the same kind at the same indentation.
+ * Lines indented under an item, including nested lists, belong to that item.
+ * @returns The list block and the index of the first line after it.
+ */
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownBlock[][] = [];
+
+  let i = start;
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || indentOf(match[1]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+
+    const contentIndent = match[0].length - match[3].length;
+    const itemLines = [match[3]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line only continues the item if an indented line follows it
+        const nextLine = lines[i + 1];
+        if (nextLine === undefined || isBlank(nextLine) || indentOf(nextLine) <= baseIndent) break;
+        itemLines.push('');
+      } else if (indentOf(line) > baseIndent) {
+        itemLines.push(line.replace(/\t/g, '    ').slice(Math.min(indentOf(line), contentIndent)));
+      } else if (!startsBlock(lines, i) && !isBlank(lines[i - 1])) {
+        // A lazy continuation of the item's paragraph
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push(parseBlocks(itemLines));
+
+    // Loose lists separate their items with blank lines
+    if (isBlank(lines[i] ?? 'x') && lines[i + 1] !== undefined) {
+      const following = lines[i + 1].match(LIST_ITEM);
+      if (following && indentOf(following[1]) === baseIndent && /\d/.test(following[2]) === ordered) i++;
+    }
+  }
+
+  return { block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+};
+
+/**
+ * Reads a pipe table starting at `start`: a header row, a separator row that sets the alignment, and body rows.
+ * @returns The table block and the index of the first line after it.
+ */
+const parseTable = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+  const header = splitTableRow(lines[start]);
+  const align = splitTableRow(lines[start + 1]).map((cell): MarkdownAlignment => {
+    if (cell.startsWith(':') && cell.endsWith(':')) return 'center';
+    if (cell.endsWith(':')) return 'right';
+    if (cell.startsWith(':')) return 'left';
+    return null;
+  });
+
+  const rows: MarkdownInline[][][] = [];
+  let i = start + 2;
+  for (; i < lines.length && !isBlank(lines[i]) && lines[i].includes('|'); i++) {
+    const cells = splitTableRow(lines[i]);
+    rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+  }
+
+  return {
+    block: { type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map(cell => parseInline(cell)), rows },
+    next: i,
+  };
+};
+
+/**
+ * Parses lines of Markdown into blocks.
+ */
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const { block, next } = parseTable(lines, i);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    for (i++; i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i); i++) paragraph.push(lines[i].trim());
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+/**
+ * Parses the Markdown the advisor writes: paragraphs, headings, nested lists, pipe tables, block quotes, code,
+ * emphasis and links. Single line breaks are kept, as chat messages use them.
+ * HTML is not interpreted; it stays as text, and only web and e-mail links are kept.
+ * @param text - The Markdown text.
+ * @returns The document's blocks.
+ */
+export const parseMarkdown = (text: string): MarkdownBlock[] => parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
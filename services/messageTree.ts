@@ -0,0 +1,138 @@
+import type { ChatMessage, MessageNode, MessageTree } from '../types';
+
+/**
+ * A message with the ID it is stored under in the tree.
+ */
+export type IdentifiedMessage = ChatMessage & { id: string };
+
+/**
+ * The tree of a session with no messages yet.
+ */
+export const EMPTY_MESSAGE_TREE: MessageTree = { nodes: {}, leafId: null };
+
+/**
+ * Lists the messages on the selected branch.
+ * @param tree - The message tree.
+ * @returns The nodes from the first message to the leaf.
+ */
+export const getBranch = (tree: MessageTree): MessageNode[] => {
+  const branch: MessageNode[] = [];
+  for (let node = tree.leafId ? tree.nodes[tree.leafId] : undefined; node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+    branch.push(node);
+  }
+  return branch.reverse();
+};
+
+/**
+ * Lists the replies to a message, oldest first.
+ * @param tree - The message tree.
+ * @param parentId - The message, or `null` for the messages that start the session.
+ * @returns The child nodes.
+ */
+export const getChildren = (tree: MessageTree, parentId: string | null): MessageNode[] =>
+  Object.values(tree.nodes)
+    .filter(node => node.parentId === parentId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+/**
+ * Lists a message and its alternatives: the other replies to the same parent, oldest first.
+ * @param tree - The message tree.
+ * @param messageId - The message.
+ * @returns The sibling nodes, including the message itself; empty if it is not in the tree.
+ */
+export const getSiblings = (tree: MessageTree, messageId: string): MessageNode[] => {
+  const node = tree.nodes[messageId];
+  return node ? getChildren(tree, node.parentId) : [];
+};
+
+/**
+ * Points each message on the way from the root to `leafId` at the next one, and makes `leafId` the leaf.
+ */
+const selectPath = (nodes: Record<string, MessageNode>, leafId: string | null): MessageTree => {
+  const updated = { ...nodes };
+  for (let node = leafId ? updated[leafId] : undefined; node?.parentId; node = updated[node.parentId]) {
+    updated[node.parentId] = { ...updated[node.parentId], selectedChildId: node.message.id };
+  }
+  return { nodes: updated, leafId };
+};
+
+/**
+ * Adds a chain of messages after a message, each replying to the one before, and selects the new branch.
+ * @param tree - The message tree.
+ * @param parentId - The message the first new message follows, or `null` to start a new conversation root.
+ * @param messages - The messages to add, with their IDs.
+ * @returns The updated tree, whose leaf is the last added message.
+ */
+export const appendMessages = (tree: MessageTree, parentId: string | null, messages: IdentifiedMessage[]): MessageTree => {
+  const nodes = { ...tree.nodes };
+  const now = Date.now();
+  let previousId = parentId;
+  messages.forEach((message, index) => {
+    // Spread the timestamps so messages added together keep their order
+    nodes[message.id] = { message, parentId: previousId, createdAt: now + index };
+    previousId = message.id;
+  });
+  return selectPath(nodes, previousId);
+};
+
+/**
+ * Selects the branch through a message, continuing along the replies last selected after it, or else the newest ones.
+ * This is how the user switches to a sibling branch.
+ * @param tree - The message tree.
+ * @param messageId - The message to bring onto the selected branch.
+ * @returns The updated tree, or the same tree if the message is unknown.
+ */
+export const switchBranch = (tree: MessageTree, messageId: string): MessageTree => {
+  if (!tree.nodes[messageId]) return tree;
+
+  let leafId = messageId;
+  for (let children = getChildren(tree, leafId); children.length; children = getChildren(tree, leafId)) {
+    const selected = children.find(child => child.message.id === tree.nodes[leafId].selectedChildId);
+    leafId = (selected ?? children[children.length - 1]).message.id;
+  }
+  return selectPath(tree.nodes, leafId);
+};
+
+/**
+ * Ends the selected branch at a message, hiding the replies after it without removing them.
+ * Used while a new reply to that message is being generated.
+ * @param tree - The message tree.
+ * @param messageId - The message to end the branch at.
+ * @returns The updated tree, or the same tree if the message is unknown.
+ */
+export const rewindBranch = (tree: MessageTree, messageId: string): MessageTree =>
+  tree.nodes[messageId] ? { ...tree, leafId: messageId } : tree;
+
+/**
+ * Deletes a message and every reply after it, ending the selected branch at its parent.
+ * Used to replace a failed turn, which is not worth keeping as a branch.
+ * @param tree - The message tree.
+ * @param messageId - The message to delete.
+ * @returns The updated tree.
+ */
+export const removeMessage = (tree: MessageTree, messageId: string): MessageTree => {
+  const removed = tree.nodes[messageId];
+  if (!removed) return tree;
+
+  const nodes = { ...tree.nodes };
+  const pending = [messageId];
+  while (pending.length) {
+    const id = pending.pop()!;
+    delete nodes[id];
+    pending.push(...getChildren(tree, id).map(child => child.message.id));
+  }
+
+  const parent = removed.parentId ? nodes[removed.parentId] : undefined;
+  if (parent?.selectedChildId === messageId) {
+    nodes[parent.message.id] = { ...parent, selectedChildId: undefined };
+  }
+  return { nodes, leafId: removed.parentId };
+};
+
+/**
+ * Builds a tree with a single branch, as for a new session or one saved before branching existed.
+ * @param messages - The messages in order, with their IDs.
+ * @returns The tree.
+ */
+export const createMessageTree = (messages: IdentifiedMessage[]): MessageTree =>
+  appendMessages(EMPTY_MESSAGE_TREE, null, messages);
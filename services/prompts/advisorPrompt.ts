@@ -0,0 +1,77 @@
+import type { Course } from '../../types';
+import type { AdvisorTurnRequest } from '../providers/types';
+import { MIN_RECOMMENDATIONS, MAX_RECOMMENDATIONS } from '../responseValidation';
+import { MIN_PATH_STEPS, MAX_PATH_STEPS } from '../learningPath';
+import { getUpcomingStartDates, todayIsoDate } from '../courseFormat';
+import { durationInWeeks } from '../duration';
+import { getPromptVersion, renderPrompt } from './index';
+
+/**
+ * The name the advisor introduces itself with.
+ */
+export const PERSONA_NAME = 'NinjaGPT';
+
+/**
+ * Reduces courses to the fields the model needs. Only the English text is sent, to save tokens and avoid confusion.
+ * @param courses - The courses to describe.
+ * @returns Plain objects ready to be written into a prompt as JSON.
+ */
+export const describeCoursesForModel = (courses: Course[]) =>
+  courses.map(c => ({
+    id: c.id,
+    title: c.title,
+    provider: c.provider,
+    description: c.description,
+    longDescription: c.longDescription,
+    duration: c.duration,
+    durationWeeks: Math.round(durationInWeeks(c.duration) * 10) / 10,
+    level: c.level,
+    topics: c.topics,
+    price: c.price,
+    deliveryMode: c.deliveryMode,
+    instructionLanguage: c.instructionLanguage,
+    upcomingStartDates: c.startDates && getUpcomingStartDates(c),
+    prerequisites: c.prerequisites,
+  }));
+
+/**
+ * Renders the catalog section: the courses themselves, or instructions for the catalog tools when the model looks them up.
+ */
+const buildCatalogSection = ({ courses, locale, toolUse }: AdvisorTurnRequest): string => {
+  if (toolUse) {
+    return renderPrompt('catalog-tools', locale, {});
+  }
+
+  return renderPrompt('catalog-list', locale, { catalog: JSON.stringify(describeCoursesForModel(courses), null, 2) });
+};
+
+/**
+ * Identifies every template the advisor's system instruction is rendered from: the `advisor` template and the catalog
+ * section it embeds, e.g. `advisor@v7/vi+catalog-tools@v3/vi`.
+ * @param locale - The preferred locale.
+ * @param useTools - Whether the model looks courses up with the catalog tools rather than getting the list.
+ * @returns The combined version identifier.
+ */
+export const getAdvisorPromptVersion = (locale: AdvisorTurnRequest['locale'], useTools: boolean): string =>
+  [getPromptVersion('advisor', locale), getPromptVersion(useTools ? 'catalog-tools' : 'catalog-list', locale)].join('+');
+
+/**
+ * Builds the system instruction for the advisor from the `advisor` template.
+ * Shared by every provider that talks to a real model.
+ * @param request - The turn request: its courses (or tool use), locale, learner profile and conversation summary.
+ * @returns The full system instruction text.
+ */
+export const buildSystemInstruction = (request: AdvisorTurnRequest): string => {
+  const { userEditedFields = [], ...knownProfile } = request.profile ?? {};
+
+  return renderPrompt('advisor', request.locale, {
+    personaName: PERSONA_NAME,
+    today: todayIsoDate(),
+    recommendationCount: `${MIN_RECOMMENDATIONS}-${MAX_RECOMMENDATIONS}`,
+    pathStepCount: `${MIN_PATH_STEPS}-${MAX_PATH_STEPS}`,
+    profile: JSON.stringify(knownProfile, null, 2),
+    userEditedFields: userEditedFields.length ? userEditedFields.join(', ') : undefined,
+    summary: request.summary || undefined,
+    catalogSection: buildCatalogSection(request),
+  });
+};
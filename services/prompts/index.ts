@@ -0,0 +1,91 @@
+import type { Locale } from '../../types';
+import type { PromptTemplate } from './types';
+import { advisorEn } from './templates/advisor.en';
+import { advisorVi } from './templates/advisor.vi';
+import { summaryEn } from './templates/summary.en';
+import { summaryVi } from './templates/summary.vi';
+import { comparisonEn } from './templates/comparison.en';
+import { comparisonVi } from './templates/comparison.vi';
+import { titleEn } from './templates/title.en';
+import { titleVi } from './templates/title.vi';
+import { catalogListEn, catalogToolsEn } from './templates/catalog.en';
+import { catalogListVi, catalogToolsVi } from './templates/catalog.vi';
+
+export type { PromptTemplate } from './types';
+
+/**
+ * Every registered template. Supporting a new locale means adding its templates here.
+ */
+const templates: PromptTemplate[] = [
+  advisorEn, advisorVi,
+  catalogListEn, catalogListVi,
+  catalogToolsEn, catalogToolsVi,
+  summaryEn, summaryVi,
+  comparisonEn, comparisonVi,
+  titleEn, titleVi,
+];
+
+/**
+ * The locale used when a prompt has no template for the requested one.
+ */
+export const FALLBACK_PROMPT_LOCALE: Locale = 'en';
+
+/**
+ * Looks up a template, falling back to `FALLBACK_PROMPT_LOCALE` when the locale has none.
+ * @param name - The prompt name, e.g. `'advisor'`.
+ * @param locale - The preferred locale.
+ * @returns The matching template.
+ * @throws If the prompt does not exist at all.
+ */
+export const getPromptTemplate = (name: string, locale: Locale): PromptTemplate => {
+  const template = templates.find(t => t.name === name && t.locale === locale)
+    ?? templates.find(t => t.name === name && t.locale === FALLBACK_PROMPT_LOCALE);
+  if (!template) {
+    throw new Error(`No prompt template named "${name}"`);
+  }
+  return template;
+};
+
+/**
+ * Returns the locales a prompt has templates for.
+ * @param name - The prompt name.
+ * @returns The supported locales.
+ */
+export const getPromptLocales = (name: string): Locale[] =>
+  templates.filter(t => t.name === name).map(t => t.locale);
+
+/**
+ * Identifies the exact template used for a prompt, e.g. `advisor@v2/vi`.
+ * @param name - The prompt name.
+ * @param locale - The preferred locale.
+ * @returns The version identifier of the template that would be rendered.
+ */
+export const getPromptVersion = (name: string, locale: Locale): string => {
+  const template = getPromptTemplate(name, locale);
+  return `${template.name}@v${template.version}/${template.locale}`;
+};
+
+/**
+ * Renders a prompt by filling its `{{variable}}` placeholders.
+ * Variables left `undefined` take the template's default.
+ * @param name - The prompt name.
+ * @param locale - The preferred locale.
+ * @param variables - The values to substitute.
+ * @returns The rendered prompt text.
+ * @throws If a placeholder has neither a value nor a default.
+ */
+export const renderPrompt = (name: string, locale: Locale, variables: Record<string, string | undefined>): string => {
+  const template = getPromptTemplate(name, locale);
+  const values: Record<string, string | undefined> = { ...template.defaults };
+  Object.entries(variables).forEach(([key, value]) => {
+    if (value !== undefined) values[key] = value;
+  });
+
+  return template.text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    const value = values[key];
+    if (value === undefined) {
+      throw new Error(`Prompt "${name}" (${template.locale}) is missing a value for "${key}"`);
+    }
+    return value;
+  });
+};
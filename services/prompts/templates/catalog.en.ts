@@ -0,0 +1,29 @@
+import type { PromptTemplate } from '../types';
+
+/**
+ * The English catalog section of the advisor prompt, for when the shortlisted courses are listed in the prompt.
+ */
+export const catalogListEn: PromptTemplate = {
+  name: 'catalog-list',
+  version: 1,
+  locale: 'en',
+  text: `**Course Catalog:**
+The courses from the catalog that best match the conversation so far are listed below. Only recommend courses from this list.
+{{catalog}}`,
+};
+
+/**
+ * The English catalog section of the advisor prompt, for when the advisor looks courses up with tools.
+ */
+export const catalogToolsEn: PromptTemplate = {
+  name: 'catalog-tools',
+  version: 3,
+  locale: 'en',
+  text: `**Course Catalog Tools:**
+The catalog is not included in this prompt. Look courses up with the tools instead:
+- 'searchCourses' to find candidates by keywords, level and category, and to filter by format, language, price, start date and length;
+- 'getCourseDetails' to read everything about one course;
+- 'listCategories' to see which areas the catalog covers;
+- 'compareCourses' to weigh a few options against each other.
+Search before recommending, and only recommend course IDs the tools returned. Once you have what you need, stop calling tools and reply with the JSON object described above, and nothing else.`,
+};
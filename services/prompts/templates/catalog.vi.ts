@@ -0,0 +1,29 @@
+import type { PromptTemplate } from '../types';
+
+/**
+ * The Vietnamese catalog section of the advisor prompt, for when the shortlisted courses are listed in the prompt.
+ */
+export const catalogListVi: PromptTemplate = {
+  name: 'catalog-list',
+  version: 1,
+  locale: 'vi',
+  text: `**Danh mục khóa học (Course Catalog):**
+Dưới đây là các khóa học trong danh mục phù hợp nhất với cuộc trò chuyện cho đến nay. Chỉ đề xuất các khóa học trong danh sách này.
+{{catalog}}`,
+};
+
+/**
+ * The Vietnamese catalog section of the advisor prompt, for when the advisor looks courses up with tools.
+ */
+export const catalogToolsVi: PromptTemplate = {
+  name: 'catalog-tools',
+  version: 3,
+  locale: 'vi',
+  text: `**Công cụ tra cứu danh mục khóa học (Course Catalog Tools):**
+Danh mục khóa học không được đính kèm trong lời nhắc này. Hãy tra cứu khóa học bằng các công cụ:
+- 'searchCourses' để tìm khóa học theo từ khóa, trình độ và lĩnh vực, và lọc theo hình thức học, ngôn ngữ, học phí, ngày khai giảng và thời lượng;
+- 'getCourseDetails' để xem toàn bộ thông tin của một khóa học;
+- 'listCategories' để xem danh mục có những lĩnh vực nào;
+- 'compareCourses' để so sánh một vài lựa chọn với nhau.
+Hãy tìm kiếm trước khi đề xuất và chỉ đề xuất các mã khóa học do công cụ trả về. Khi đã đủ thông tin, hãy ngừng gọi công cụ và trả lời bằng đối tượng JSON được mô tả ở trên, không kèm gì khác.`,
+};
@@ -0,0 +1,29 @@
+import type { PromptTemplate } from '../types';
+
+/**
+ * The English prompt for folding older messages into the running conversation summary.
+ */
+export const summaryEn: PromptTemplate = {
+  name: 'summary',
+  version: 1,
+  locale: 'en',
+  defaults: {
+    previousSummary: 'None yet.',
+  },
+  text: `You are maintaining the running summary of a conversation between a learner and {{personaName}}, an AI course advisor. The summary replaces the older messages when the advisor replies, so it must keep everything the advisor needs to continue naturally.
+
+Update the summary below with the new messages. Keep:
+- what the learner said about themselves: name, age, education, field of study, work experience and goals;
+- the learner's preferences, constraints and any courses they liked or rejected;
+- every course the advisor recommended, with its ID, and the learner's reaction;
+- any open question the advisor is waiting on.
+
+Write in English, in the third person, as short plain-text paragraphs or bullet points of at most {{maxWords}} words. Reply with the summary only.
+
+**Current summary:**
+{{previousSummary}}
+
+**New messages:**
+{{transcript}}
+`,
+};
@@ -0,0 +1,29 @@
+import type { PromptTemplate } from '../types';
+
+/**
+ * The Vietnamese prompt for folding older messages into the running conversation summary.
+ */
+export const summaryVi: PromptTemplate = {
+  name: 'summary',
+  version: 1,
+  locale: 'vi',
+  defaults: {
+    previousSummary: 'Chưa có.',
+  },
+  text: `Bạn đang duy trì bản tóm tắt liên tục của cuộc trò chuyện giữa một người học và {{personaName}}, trợ lý tư vấn khóa học AI. Bản tóm tắt sẽ thay thế các tin nhắn cũ khi trợ lý trả lời, vì vậy nó phải giữ lại mọi thông tin trợ lý cần để tiếp tục cuộc trò chuyện một cách tự nhiên.
+
+Hãy cập nhật bản tóm tắt dưới đây với các tin nhắn mới. Giữ lại:
+- những gì người học chia sẻ về bản thân: tên, tuổi, trình độ học vấn, chuyên ngành, kinh nghiệm làm việc và mục tiêu;
+- sở thích, giới hạn của người học và các khóa học họ thích hoặc không thích;
+- mọi khóa học trợ lý đã đề xuất, kèm mã khóa học, và phản hồi của người học;
+- các câu hỏi trợ lý đang chờ người học trả lời.
+
+Viết bằng tiếng Việt, ở ngôi thứ ba, dưới dạng các đoạn văn ngắn hoặc gạch đầu dòng, tối đa {{maxWords}} từ. Chỉ trả lời bằng bản tóm tắt.
+
+**Bản tóm tắt hiện tại:**
+{{previousSummary}}
+
+**Tin nhắn mới:**
+{{transcript}}
+`,
+};
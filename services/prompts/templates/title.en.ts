@@ -0,0 +1,25 @@
+import type { PromptTemplate } from '../types';
+
+/**
+ * The English prompt for naming a chat session in the chat history.
+ */
+export const titleEn: PromptTemplate = {
+  name: 'title',
+  version: 1,
+  locale: 'en',
+  defaults: {
+    profile: 'Nothing recorded yet.',
+  },
+  text: `You are naming a conversation between a learner and {{personaName}}, an AI course advisor, so the learner can find it again in their chat history.
+
+Write a title of at most {{maxWords}} words that says what the learner is after: their goal, the field or the kind of course, not the advisor's questions. If the learner's name is known, end the title with " – " and their first name. Examples: "Marketing career switch – Lan", "Evening Python courses for beginners".
+
+Write in English, in sentence case, without quotes, emoji or a final full stop. Reply with the title only.
+
+**What is known about the learner (JSON):**
+{{profile}}
+
+**Conversation:**
+{{transcript}}
+`,
+};
@@ -0,0 +1,25 @@
+import type { PromptTemplate } from '../types';
+
+/**
+ * The Vietnamese prompt for naming a chat session in the chat history.
+ */
+export const titleVi: PromptTemplate = {
+  name: 'title',
+  version: 1,
+  locale: 'vi',
+  defaults: {
+    profile: 'Chưa có thông tin.',
+  },
+  text: `Bạn đang đặt tên cho cuộc trò chuyện giữa một người học và {{personaName}}, trợ lý tư vấn khóa học AI, để người học dễ tìm lại trong lịch sử trò chuyện.
+
+Hãy viết một tiêu đề tối đa {{maxWords}} từ nói lên điều người học đang tìm kiếm: mục tiêu, lĩnh vực hoặc loại khóa học, không phải các câu hỏi của trợ lý. Nếu đã biết tên người học, hãy kết thúc tiêu đề bằng " – " và tên của họ. Ví dụ: "Chuyển hướng sang marketing – Lan", "Khóa Python buổi tối cho người mới".
+
+Viết bằng tiếng Việt, chỉ viết hoa chữ cái đầu, không dùng dấu ngoặc kép, biểu tượng cảm xúc hay dấu chấm cuối câu. Chỉ trả lời bằng tiêu đề.
+
+**Thông tin đã biết về người học (JSON):**
+{{profile}}
+
+**Cuộc trò chuyện:**
+{{transcript}}
+`,
+};
@@ -0,0 +1,76 @@
+import type { ChatMessage } from '../../types';
+import type { TextTask } from '../providers/types';
+import { PERSONA_NAME, describeCoursesForModel } from './advisorPrompt';
+import { renderPrompt } from './index';
+
+/**
+ * The length the summary prompt asks the model to stay within.
+ */
+const SUMMARY_MAX_WORDS = 250;
+
+/**
+ * The length the comparison prompt asks the model to stay within.
+ */
+const COMPARISON_MAX_WORDS = 200;
+
+/**
+ * The length the title prompt asks the model to stay within.
+ */
+const TITLE_MAX_WORDS = 6;
+
+/**
+ * Writes messages out as a plain transcript, including the IDs of any recommended courses and learning path.
+ * @param messages - The messages to write out.
+ * @returns One line per message.
+ */
+const formatTranscript = (messages: ChatMessage[]): string =>
+  messages
+    .map(message => {
+      const speaker = message.sender === 'user' ? 'Learner' : 'Advisor';
+      const recommended = message.recommendedCourses?.length
+        ? ` [Recommended: ${message.recommendedCourses.map(({ course }) => `${course.id} (${course.title})`).join(', ')}]`
+        : '';
+      const path = message.learningPath
+        ? ` [Learning path toward "${message.learningPath.goal}": ${message.learningPath.steps.map(({ course }) => course.id).join(' → ')}]`
+        : '';
+      return `${speaker}: ${message.text ?? ''}${recommended}${path}`;
+    })
+    .join('\n');
+
+/**
+ * Builds the prompt for a free-text task from its template.
+ * Shared by every provider that talks to a real model.
+ * @param task - The task to build the prompt for.
+ * @returns The full prompt text, sent to the model as a single user message.
+ */
+export const buildTextTaskPrompt = (task: TextTask): string => {
+  switch (task.kind) {
+    case 'summary':
+      return renderPrompt('summary', task.locale, {
+        personaName: PERSONA_NAME,
+        maxWords: String(SUMMARY_MAX_WORDS),
+        previousSummary: task.previousSummary || undefined,
+        transcript: formatTranscript(task.messages),
+      });
+    case 'comparison': {
+      const { userEditedFields, ...knownProfile } = task.profile ?? {};
+      return renderPrompt('comparison', task.locale, {
+        personaName: PERSONA_NAME,
+        maxWords: String(COMPARISON_MAX_WORDS),
+        courses: JSON.stringify(describeCoursesForModel(task.courses), null, 2),
+        profile: Object.keys(knownProfile).length ? JSON.stringify(knownProfile, null, 2) : undefined,
+        summary: task.summary || undefined,
+        transcript: task.messages.length ? formatTranscript(task.messages) : undefined,
+      });
+    }
+    case 'title': {
+      const { userEditedFields, ...knownProfile } = task.profile ?? {};
+      return renderPrompt('title', task.locale, {
+        personaName: PERSONA_NAME,
+        maxWords: String(TITLE_MAX_WORDS),
+        profile: Object.keys(knownProfile).length ? JSON.stringify(knownProfile, null, 2) : undefined,
+        transcript: formatTranscript(task.messages),
+      });
+    }
+  }
+};
@@ -0,0 +1,16 @@
+import type { Locale } from '../../types';
+
+/**
+ * A named, versioned prompt for one locale.
+ * `text` holds `{{variable}}` placeholders that are filled in at render time.
+ */
+export interface PromptTemplate {
+  /** The prompt's purpose, shared by all its locales, e.g. `'advisor'`. */
+  name: string;
+  /** Bumped whenever the wording changes, so sessions can be traced back to the prompt they used. */
+  version: number;
+  locale: Locale;
+  text: string;
+  /** Locale-specific values for variables, such as tone rules. Values passed at render time win. */
+  defaults?: Record<string, string>;
+}
@@ -0,0 +1,242 @@
+import { GoogleGenAI, Type, FinishReason, FunctionCallingConfigMode, GenerateContentResponse } from "@google/genai";
+import type { AdvisorProvider, AdvisorToolStep, AdvisorTurnRequest, GeminiResponse, TextTask } from './types';
+import { buildSystemInstruction } from '../prompts/advisorPrompt';
+import { buildTextTaskPrompt } from '../prompts/textTaskPrompt';
+import { parseAdvisorJson } from './parseResponse';
+import { AdvisorError } from '../advisorErrors';
+import { CATALOG_TOOL_DECLARATIONS } from '../catalogTools';
+
+/**
+ * Configuration for the Gemini provider.
+ */
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model?: string;
+}
+
+const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+/**
+ * Defines the JSON schema for the conversational response from the Gemini API.
+ * This schema allows the AI to return either a follow-up question or final recommendations.
+ */
+const conversationalSchema = {
+  type: Type.OBJECT,
+  properties: {
+    chatResponse: {
+      type: Type.STRING,
+      description: "A friendly, conversational response to the user. This will be either the next question or the text introducing the recommendations."
+    },
+    recommendations: {
+      type: Type.ARRAY,
+      description: "An array of 2-3 recommended courses. This should ONLY be included when enough information has been gathered to make a recommendation.",
+      items: {
+        type: Type.OBJECT,
+        required: ["courseId", "reasoning"],
+        properties: {
+          courseId: {
+            type: Type.STRING,
+            description: "The ID of the recommended course from the provided catalog."
+          },
+          reasoning: {
+            type: Type.STRING,
+            description: "A detailed but concise explanation of why this specific course is a good fit for the user, referencing the conversation history."
+          }
+        }
+      }
+    },
+    learningPath: {
+      type: Type.OBJECT,
+      description: "An ordered sequence of courses toward the user's goal. ONLY include this when the user wants a path or their goal needs several courses taken one after another.",
+      required: ["goal", "steps"],
+      properties: {
+        goal: {
+          type: Type.STRING,
+          description: "The goal the path leads to, in a few words."
+        },
+        steps: {
+          type: Type.ARRAY,
+          description: "The courses in the order they should be taken, each after its prerequisites and from lower to higher level.",
+          items: {
+            type: Type.OBJECT,
+            required: ["courseId", "reasoning"],
+            properties: {
+              courseId: {
+                type: Type.STRING,
+                description: "The ID of the course from the provided catalog."
+              },
+              reasoning: {
+                type: Type.STRING,
+                description: "Why this course belongs at this point in the path."
+              }
+            }
+          }
+        }
+      }
+    },
+    isComplete: {
+      type: Type.BOOLEAN,
+      description: "Set to true when you provide the initial set of recommendations. The user may still ask follow-up questions. Otherwise, set to false."
+    },
+    profileUpdate: {
+      type: Type.OBJECT,
+      description: "Learner details the user stated or changed in their latest message. Only include fields that are new or different.",
+      properties: {
+        name: { type: Type.STRING, description: "The learner's name." },
+        age: { type: Type.STRING, description: "The learner's age." },
+        education: { type: Type.STRING, description: "The learner's highest level of education." },
+        fieldOfStudy: { type: Type.STRING, description: "What the learner studied or is studying." },
+        experience: { type: Type.STRING, description: "A short summary of the learner's work experience." },
+        goals: { type: Type.STRING, description: "What the learner wants to learn or achieve." }
+      }
+    }
+  },
+  required: ['chatResponse', 'isComplete'],
+  // Keep chatResponse first so it can be shown while the rest of the JSON streams in.
+  propertyOrdering: ['chatResponse', 'recommendations', 'learningPath', 'isComplete', 'profileUpdate']
+};
+
+/**
+ * The finish reasons Gemini uses when it stops a response for policy reasons.
+ */
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+/**
+ * Fails when Gemini blocked the prompt or stopped the response for safety reasons.
+ * @param response - A full response or a streamed chunk.
+ * @throws {AdvisorError} `safety` if the response was blocked.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new AdvisorError('safety', `Gemini blocked the response (${blockReason ?? finishReason}).`);
+  }
+};
+
+/**
+ * Creates a provider backed by Google's Gemini API.
+ * @param config - The API key and optional model name.
+ * @returns An `AdvisorProvider` that calls Gemini with a structured JSON response schema.
+ */
+export const createGeminiProvider = (config: GeminiProviderConfig): AdvisorProvider => {
+  if (!config.apiKey) {
+    throw new Error("Gemini provider requires an API key");
+  }
+
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const model = config.model || DEFAULT_GEMINI_MODEL;
+
+  /**
+   * Converts the conversation into Gemini contents.
+   */
+  const buildContents = ({ chatHistory }: AdvisorTurnRequest) => chatHistory.map(message => ({
+    role: message.sender === 'ai' ? 'model' : 'user',
+    parts: [{ text: message.text || '' }],
+  }));
+
+  /**
+   * Builds the request parameters shared by the streaming and non-streaming calls.
+   */
+  const buildParams = (request: AdvisorTurnRequest) => ({
+    model: model,
+    contents: buildContents(request),
+    config: {
+      systemInstruction: buildSystemInstruction(request),
+      responseMimeType: "application/json",
+      responseSchema: conversationalSchema,
+      temperature: 0.5,
+    },
+  });
+
+  /**
+   * Builds the parameters for a step with the catalog tools.
+   * Gemini cannot combine function calling with a response schema, so the JSON rules in the prompt are relied upon instead.
+   */
+  const buildToolParams = (request: AdvisorTurnRequest) => {
+    const { rounds, allowCalls } = request.toolUse;
+    const toolContents = rounds.flatMap(round => [
+      {
+        role: 'model',
+        parts: round.calls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } })),
+      },
+      {
+        role: 'user',
+        parts: round.calls.map((call, index) => ({
+          functionResponse: { id: call.id, name: call.name, response: { result: round.results[index] } },
+        })),
+      },
+    ]);
+
+    return {
+      model: model,
+      contents: [...buildContents(request), ...toolContents],
+      config: {
+        systemInstruction: buildSystemInstruction(request),
+        tools: [{
+          functionDeclarations: CATALOG_TOOL_DECLARATIONS.map(({ name, description, parameters }) => ({
+            name,
+            description,
+            parametersJsonSchema: parameters,
+          })),
+        }],
+        toolConfig: {
+          functionCallingConfig: { mode: allowCalls ? FunctionCallingConfigMode.AUTO : FunctionCallingConfigMode.NONE },
+        },
+        temperature: 0.5,
+      },
+    };
+  };
+
+  const generateTurn = async (request: AdvisorTurnRequest): Promise<GeminiResponse> => {
+    const response = await ai.models.generateContent(buildParams(request));
+    assertNotBlocked(response);
+    return parseAdvisorJson(response.text ?? '');
+  };
+
+  async function* streamTurn(request: AdvisorTurnRequest): AsyncGenerator<string> {
+    const stream = await ai.models.generateContentStream(buildParams(request));
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+  }
+
+  const generateToolStep = async (request: AdvisorTurnRequest): Promise<AdvisorToolStep> => {
+    const response = await ai.models.generateContent(buildToolParams(request));
+    assertNotBlocked(response);
+
+    const functionCalls = response.functionCalls ?? [];
+    if (functionCalls.length) {
+      const round = request.toolUse.rounds.length;
+      return {
+        kind: 'toolCalls',
+        calls: functionCalls.map((call, index) => ({
+          id: call.id ?? `call-${round}-${index}`,
+          name: call.name ?? '',
+          args: call.args ?? {},
+        })),
+      };
+    }
+    return { kind: 'response', response: parseAdvisorJson(response.text ?? '') };
+  };
+
+  const completeText = async (task: TextTask): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: buildTextTaskPrompt(task),
+      config: { temperature: 0.3 },
+    });
+    assertNotBlocked(response);
+    return (response.text ?? '').trim();
+  };
+
+  return { name: 'gemini', generateTurn, streamTurn, generateToolStep, completeText };
+};
@@ -0,0 +1,59 @@
+import type { AdvisorProvider, ProviderName } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+
+export type { AdvisorProvider, AdvisorToolStep, AdvisorTurnRequest, GeminiLearningPath, GeminiRecommendation, GeminiResponse, ProviderName, TextTask, ToolCall, ToolRound, ToolUse } from './types';
+
+let cachedProvider: AdvisorProvider | null = null;
+
+/**
+ * Determines which provider to use from the Vite environment.
+ * Defaults to the API proxy, which keeps the model key on the server.
+ * @returns The name of the configured provider.
+ */
+const resolveProviderName = (): ProviderName => {
+  const configured = import.meta.env.VITE_AI_PROVIDER as ProviderName | undefined;
+  if (configured === 'gemini' || configured === 'openai') {
+    console.warn(`VITE_AI_PROVIDER is "${configured}": the model is called directly and any key is bundled into the client.`);
+  }
+  return configured || 'proxy';
+};
+
+/**
+ * Returns the configured advisor provider, creating it on first use.
+ * Creation is deferred so that a missing key only fails the first turn instead of the whole app.
+ * @returns The active `AdvisorProvider`.
+ */
+export const getProvider = (): AdvisorProvider => {
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const env = import.meta.env;
+  const name = resolveProviderName();
+
+  switch (name) {
+    case 'proxy':
+      cachedProvider = createProxyProvider({ baseUrl: env.VITE_API_BASE_URL || '/api' });
+      break;
+    case 'gemini':
+      cachedProvider = createGeminiProvider({ apiKey: env.VITE_GEMINI_API_KEY, model: env.VITE_GEMINI_MODEL });
+      break;
+    case 'openai':
+      cachedProvider = createOpenAiCompatibleProvider({
+        baseUrl: env.VITE_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        model: env.VITE_OPENAI_MODEL || 'llama3.1',
+        apiKey: env.VITE_OPENAI_API_KEY,
+      });
+      break;
+    case 'mock':
+      cachedProvider = createMockProvider({ delayMs: Number(env.VITE_MOCK_DELAY_MS ?? 600), chunkDelayMs: 30 });
+      break;
+    default:
+      throw new Error(`Unknown AI provider "${name}". Expected one of: proxy, gemini, openai, mock.`);
+  }
+
+  return cachedProvider;
+};
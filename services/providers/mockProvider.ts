@@ -0,0 +1,211 @@
+import type { Course, Locale, LearnerProfileField } from '../../types';
+import type { AdvisorProvider, AdvisorToolStep, AdvisorTurnRequest, GeminiResponse, TextTask } from './types';
+
+/**
+ * Configuration for the mock provider.
+ */
+export interface MockProviderConfig {
+  /** Artificial latency in milliseconds, so loading states can be exercised. */
+  delayMs?: number;
+  /** Delay between streamed chunks in milliseconds. */
+  chunkDelayMs?: number;
+}
+
+const STREAM_CHUNK_SIZE = 12;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * The scripted follow-up questions, asked in order after each user answer.
+ */
+const scriptedQuestions: Record<Locale, string[]> = {
+  en: [
+    "Nice to meet you! How old are you, and what is your highest level of education?",
+    "Thanks! What did you study, and what kind of work experience do you have?",
+    "Great. What would you most like to learn or achieve with a course?",
+  ],
+  vi: [
+    "Dạ, rất vui được làm quen với anh/chị ạ! Anh/chị có thể cho em biết tuổi và trình độ học vấn cao nhất của mình không ạ?",
+    "Dạ, em cảm ơn anh/chị. Anh/chị đã học chuyên ngành gì và có kinh nghiệm làm việc như thế nào ạ?",
+    "Dạ, tuyệt vời ạ. Anh/chị mong muốn học hoặc đạt được điều gì nhất qua khóa học ạ?",
+  ],
+};
+
+/**
+ * The profile field each scripted answer fills in: the name, then one field per question.
+ */
+const answerFields: LearnerProfileField[] = ['name', 'education', 'experience', 'goals'];
+
+const scriptedReplies: Record<Locale, { recommend: string; reasoning: string; path: string; followUp: string; comparison: string }> = {
+  en: {
+    recommend: "Thanks for sharing! Based on what you told me, here are the courses I think fit you best.",
+    reasoning: "This course covers topics you mentioned during our conversation.",
+    path: "Here is a learning path that takes you there step by step.",
+    followUp: "This is a demo reply from the offline advisor. Feel free to open any course for details or start a new conversation.",
+    comparison: "Of these courses, {{title}} matches the most of what you told me, so I would start there. This is a demo verdict from the offline advisor.",
+  },
+  vi: {
+    recommend: "Dạ, em cảm ơn anh/chị đã chia sẻ! Dựa trên thông tin anh/chị cung cấp, đây là các khóa học em thấy phù hợp nhất ạ.",
+    reasoning: "Khóa học này đề cập đến các chủ đề anh/chị đã nhắc đến trong cuộc trò chuyện.",
+    path: "Dạ, đây là lộ trình học giúp anh/chị đạt mục tiêu từng bước một ạ.",
+    followUp: "Dạ, đây là câu trả lời mẫu từ trợ lý ngoại tuyến. Anh/chị có thể mở từng khóa học để xem chi tiết hoặc bắt đầu cuộc trò chuyện mới ạ.",
+    comparison: "Dạ, trong các khóa học này, {{title}} phù hợp nhất với những gì anh/chị đã chia sẻ, nên em đề xuất anh/chị bắt đầu với khóa này ạ. Đây là nhận xét mẫu từ trợ lý ngoại tuyến.",
+  },
+};
+
+/**
+ * Words that ask for a learning path rather than a few separate courses.
+ */
+const PATH_REQUEST = /\b(path|roadmap|journey)\b|lộ trình/i;
+
+/**
+ * Ranks courses by how many of their words appear in the user's messages.
+ * Ties keep catalog order, so the result is fully deterministic.
+ * @param courses - The available courses.
+ * @param userText - Everything the user has said so far.
+ * @returns The three best-matching courses.
+ */
+const pickCourses = (courses: Course[], userText: string): Course[] => {
+  const words = new Set(userText.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 2));
+  const scored = courses.map((course, index) => {
+    const courseWords = [course.title, course.description, course.category, ...course.topics]
+      .join(' ')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u);
+    const score = courseWords.filter(word => words.has(word)).length;
+    return { course, score, index };
+  });
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, 3)
+    .map(({ course }) => course);
+};
+
+/**
+ * Creates a deterministic, offline provider that follows a fixed interview script.
+ * It needs no API key or network, which makes it suitable for development and demos.
+ * @param config - Optional latency settings.
+ * @returns An `AdvisorProvider` that never calls a model.
+ */
+export const createMockProvider = (config: MockProviderConfig = {}): AdvisorProvider => {
+  const generateTurn = async ({ chatHistory, courses, locale, summary }: AdvisorTurnRequest): Promise<GeminiResponse> => {
+    if (config.delayMs) {
+      await sleep(config.delayMs);
+    }
+
+    const questions = scriptedQuestions[locale];
+    const replies = scriptedReplies[locale];
+    // A summary means the interview is long over, even though its messages are no longer in the history.
+    if (summary) {
+      return { chatResponse: replies.followUp, isComplete: false };
+    }
+
+    const userMessages = chatHistory.filter(message => message.sender === 'user');
+    const answered = userMessages.length;
+    const answerField = answerFields[answered - 1];
+    const profileUpdate = answerField ? { [answerField]: userMessages[answered - 1].text || '' } : undefined;
+
+    if (answered <= questions.length) {
+      return { chatResponse: questions[answered - 1] ?? questions[0], isComplete: false, profileUpdate };
+    }
+
+    const userText = userMessages.map(message => message.text || '').join(' ');
+    const latestText = userMessages[answered - 1]?.text || '';
+    const picked = pickCourses(courses, userText).map(course => ({ courseId: course.id, reasoning: replies.reasoning }));
+    // Asking for a path gets one; the client puts the courses in order and adds their prerequisites.
+    const learningPath = PATH_REQUEST.test(latestText)
+      ? { goal: userMessages[questions.length]?.text || latestText, steps: picked }
+      : undefined;
+
+    if (answered === questions.length + 1) {
+      return {
+        chatResponse: replies.recommend,
+        profileUpdate,
+        recommendations: picked,
+        learningPath,
+        isComplete: true,
+      };
+    }
+
+    if (learningPath) {
+      return { chatResponse: replies.path, learningPath, isComplete: false };
+    }
+
+    return { chatResponse: replies.followUp, isComplete: false };
+  };
+
+  /**
+   * Streams the scripted response as JSON, a few characters at a time.
+   */
+  async function* streamTurn(request: AdvisorTurnRequest): AsyncGenerator<string> {
+    const json = JSON.stringify(await generateTurn(request));
+    for (let i = 0; i < json.length; i += STREAM_CHUNK_SIZE) {
+      if (config.chunkDelayMs) {
+        await sleep(config.chunkDelayMs);
+      }
+      yield json.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  }
+
+  /**
+   * Follows the same script, but searches the catalog with a tool before recommending or proposing a path,
+   * and uses the top search results instead of ranking `courses` itself.
+   */
+  const generateToolStep = async (request: AdvisorTurnRequest): Promise<AdvisorToolStep> => {
+    const response = await generateTurn(request);
+    if (!response.isComplete && !response.learningPath) {
+      return { kind: 'response', response };
+    }
+
+    const [firstRound] = request.toolUse.rounds;
+    if (!firstRound) {
+      if (!request.toolUse.allowCalls) {
+        return { kind: 'response', response };
+      }
+      const query = request.chatHistory.filter(message => message.sender === 'user').map(message => message.text || '').join(' ');
+      return { kind: 'toolCalls', calls: [{ id: 'mock-search', name: 'searchCourses', args: { query } }] };
+    }
+
+    const found = (firstRound.results[0] as { courses?: { id: string }[] } | undefined)?.courses ?? [];
+    const picked = found.slice(0, 3).map(course => ({ courseId: course.id, reasoning: scriptedReplies[request.locale].reasoning }));
+    return {
+      kind: 'response',
+      response: {
+        ...response,
+        recommendations: response.recommendations && picked,
+        learningPath: response.learningPath && { ...response.learningPath, steps: picked },
+      },
+    };
+  };
+
+  /**
+   * Summarizes by quoting the learner's messages, which is enough to exercise the history manager offline.
+   * Comparisons pick the course that best matches what the learner said, the same way recommendations do.
+   * Titles are the first words of the learner's goal, or of their latest message, followed by their name.
+   */
+  const completeText = async (task: TextTask): Promise<string> => {
+    if (config.delayMs) {
+      await sleep(config.delayMs);
+    }
+
+    if (task.kind === 'comparison') {
+      const userText = [task.summary, ...task.messages.filter(message => message.sender === 'user').map(message => message.text)].join(' ');
+      const [best] = pickCourses(task.courses, userText);
+      return scriptedReplies[task.locale].comparison.replace('{{title}}', best ? `${best.title} (${best.id})` : '');
+    }
+
+    if (task.kind === 'title') {
+      const latestText = [...task.messages].reverse().find(message => message.sender === 'user' && message.text)?.text ?? '';
+      const words = (task.profile?.goals || latestText).split(/\s+/).filter(Boolean).slice(0, 5).join(' ').replace(/[.!?,;:]+$/, '');
+      const topic = words.charAt(0).toUpperCase() + words.slice(1);
+      return [topic, task.profile?.name].filter(Boolean).join(' – ');
+    }
+
+    const learnerLines = task.messages
+      .filter(message => message.sender === 'user' && message.text)
+      .map(message => `- ${message.text}`);
+    return [task.previousSummary, ...learnerLines].filter(Boolean).join('\n');
+  };
+
+  return { name: 'mock', generateTurn, streamTurn, generateToolStep, completeText };
+};
@@ -0,0 +1,194 @@
+import type { AdvisorProvider, AdvisorToolStep, AdvisorTurnRequest, GeminiResponse, TextTask, ToolCall } from './types';
+import { buildSystemInstruction } from '../prompts/advisorPrompt';
+import { buildTextTaskPrompt } from '../prompts/textTaskPrompt';
+import { parseAdvisorJson } from './parseResponse';
+import { AdvisorError, errorKindFromStatus, parseRetryAfter } from '../advisorErrors';
+import { CATALOG_TOOL_DECLARATIONS } from '../catalogTools';
+
+/**
+ * Configuration for an OpenAI-compatible chat completions backend,
+ * such as a local Ollama, LM Studio or vLLM server.
+ */
+export interface OpenAiCompatibleProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * A tool call in a chat completions response, with its arguments still as JSON text.
+ */
+interface OpenAiToolCall {
+  id: string;
+  type?: 'function';
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Creates a provider that talks to any server implementing the OpenAI `/chat/completions` endpoint.
+ * The JSON rules in the system instruction are relied upon, with `json_object` mode requested where supported.
+ * @param config - The server URL, model name and optional API key.
+ * @returns An `AdvisorProvider` backed by the given server.
+ */
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleProviderConfig): AdvisorProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  /**
+   * Builds the chat messages for an advisor turn: the system instruction followed by the conversation.
+   */
+  const buildTurnMessages = (request: AdvisorTurnRequest): Record<string, unknown>[] => [
+    { role: 'system', content: buildSystemInstruction(request) },
+    ...request.chatHistory.map(message => ({
+      role: message.sender === 'ai' ? 'assistant' : 'user',
+      content: message.text || '',
+    })),
+  ];
+
+  /**
+   * Converts the tool calls made so far into assistant `tool_calls` messages followed by their `tool` results.
+   */
+  const buildToolMessages = ({ toolUse }: AdvisorTurnRequest): Record<string, unknown>[] =>
+    toolUse.rounds.flatMap(round => [
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: round.calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      },
+      ...round.calls.map((call, index) => ({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(round.results[index]),
+      })),
+    ]);
+
+  /**
+   * Sends a chat completions request and fails with a classified error on any non-2xx status.
+   */
+  const postCompletion = async (body: Record<string, unknown>): Promise<Response> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.5,
+        ...body,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new AdvisorError(
+        errorKindFromStatus(response.status),
+        `OpenAI-compatible server responded with ${response.status}: ${await response.text()}`,
+        { retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) }
+      );
+    }
+
+    return response;
+  };
+
+  /**
+   * Fails when the server's content filter stopped the completion.
+   */
+  const assertNotFiltered = (finishReason: string | undefined) => {
+    if (finishReason === 'content_filter') {
+      throw new AdvisorError('safety', "The response was blocked by the server's content filter.");
+    }
+  };
+
+  const generateTurn = async (request: AdvisorTurnRequest): Promise<GeminiResponse> => {
+    const data = await (await postCompletion({
+      messages: buildTurnMessages(request),
+      response_format: { type: 'json_object' },
+      stream: false,
+    })).json();
+    assertNotFiltered(data.choices?.[0]?.finish_reason);
+    return parseAdvisorJson(data.choices?.[0]?.message?.content ?? '');
+  };
+
+  /**
+   * Reads the server-sent events of a streaming completion and yields the content deltas.
+   */
+  async function* streamTurn(request: AdvisorTurnRequest): AsyncGenerator<string> {
+    const response = await postCompletion({
+      messages: buildTurnMessages(request),
+      response_format: { type: 'json_object' },
+      stream: true,
+    });
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) {
+          continue;
+        }
+        if (data === '[DONE]') {
+          return;
+        }
+        const choice = JSON.parse(data).choices?.[0];
+        assertNotFiltered(choice?.finish_reason);
+        const delta = choice?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+
+  const generateToolStep = async (request: AdvisorTurnRequest): Promise<AdvisorToolStep> => {
+    const data = await (await postCompletion({
+      messages: [...buildTurnMessages(request), ...buildToolMessages(request)],
+      tools: CATALOG_TOOL_DECLARATIONS.map(({ name, description, parameters }) => ({
+        type: 'function',
+        function: { name, description, parameters },
+      })),
+      tool_choice: request.toolUse.allowCalls ? 'auto' : 'none',
+      stream: false,
+    })).json();
+    const choice = data.choices?.[0];
+    assertNotFiltered(choice?.finish_reason);
+
+    const toolCalls: OpenAiToolCall[] = choice?.message?.tool_calls ?? [];
+    if (toolCalls.length) {
+      const calls: ToolCall[] = toolCalls.map(call => {
+        try {
+          return { id: call.id, name: call.function?.name ?? '', args: JSON.parse(call.function?.arguments || '{}') };
+        } catch (error) {
+          throw new AdvisorError('parse', `The arguments of tool call "${call.function?.name}" were not valid JSON.`, { cause: error });
+        }
+      });
+      return { kind: 'toolCalls', calls };
+    }
+    return { kind: 'response', response: parseAdvisorJson(choice?.message?.content ?? '') };
+  };
+
+  const completeText = async (task: TextTask): Promise<string> => {
+    const data = await (await postCompletion({
+      messages: [{ role: 'user', content: buildTextTaskPrompt(task) }],
+      temperature: 0.3,
+      stream: false,
+    })).json();
+    assertNotFiltered(data.choices?.[0]?.finish_reason);
+    return (data.choices?.[0]?.message?.content ?? '').trim();
+  };
+
+  return { name: 'openai', generateTurn, streamTurn, generateToolStep, completeText };
+};
@@ -0,0 +1,39 @@
+import type { GeminiResponse } from './types';
+import { AdvisorError } from '../advisorErrors';
+
+/**
+ * Removes a surrounding Markdown code fence, which some local models add around JSON output.
+ * @param text - The raw model output.
+ * @returns The output without the fence.
+ */
+const stripCodeFence = (text: string): string => {
+  const match = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return match ? match[1] : text;
+};
+
+/**
+ * Parses the raw JSON text returned by a model into a `GeminiResponse`.
+ * @param text - The raw model output.
+ * @returns The parsed response.
+ * @throws {AdvisorError} `parse` if the text is not valid JSON, `schema` if it lacks a `chatResponse` or a list is malformed.
+ */
+export const parseAdvisorJson = (text: string): GeminiResponse => {
+  let parsedResponse: GeminiResponse;
+  try {
+    parsedResponse = JSON.parse(stripCodeFence(text.trim()));
+  } catch (error) {
+    throw new AdvisorError('parse', "The AI response was not valid JSON.", { cause: error });
+  }
+
+  if (!parsedResponse || typeof parsedResponse.chatResponse !== 'string' || !parsedResponse.chatResponse) {
+    throw new AdvisorError('schema', "Invalid response structure from AI: chatResponse missing.");
+  }
+  if (parsedResponse.recommendations !== undefined && !Array.isArray(parsedResponse.recommendations)) {
+    throw new AdvisorError('schema', "Invalid response structure from AI: recommendations must be an array.");
+  }
+  if (parsedResponse.learningPath !== undefined && !Array.isArray(parsedResponse.learningPath?.steps)) {
+    throw new AdvisorError('schema', "Invalid response structure from AI: learningPath must have a steps array.");
+  }
+
+  return parsedResponse;
+};
@@ -0,0 +1,75 @@
+import type { AdvisorProvider, AdvisorToolStep, AdvisorTurnRequest, GeminiResponse, TextTask } from './types';
+import { AdvisorError, AdvisorErrorKind, errorKindFromStatus, parseRetryAfter } from '../advisorErrors';
+
+/**
+ * Configuration for the proxy provider.
+ */
+export interface ProxyProviderConfig {
+  /** The base URL of the API proxy, e.g. `/api`. */
+  baseUrl: string;
+}
+
+/**
+ * Creates a provider that forwards turns to the project's own API proxy (see `server/`).
+ * The proxy holds the model key and builds the prompts, so nothing secret reaches the browser.
+ * @param config - The proxy location.
+ * @returns An `AdvisorProvider` backed by the proxy.
+ */
+export const createProxyProvider = (config: ProxyProviderConfig): AdvisorProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  /**
+   * Posts a JSON body to a proxy endpoint and fails with the proxy's error message and kind on any non-2xx status.
+   */
+  const post = async (path: string, body: unknown): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const kind: AdvisorErrorKind = body?.kind ?? errorKindFromStatus(response.status);
+      throw new AdvisorError(kind, `API proxy responded with ${response.status}: ${body?.error ?? response.statusText}`, {
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      });
+    }
+
+    return response;
+  };
+
+  const generateTurn = async (request: AdvisorTurnRequest): Promise<GeminiResponse> => {
+    return (await post('/advisor', { ...request, stream: false })).json();
+  };
+
+  async function* streamTurn(request: AdvisorTurnRequest): AsyncGenerator<string> {
+    const reader = (await post('/advisor', { ...request, stream: true })).body.getReader();
+    const decoder = new TextDecoder();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        // Flush a character whose bytes were split across the last chunks
+        const rest = decoder.decode();
+        if (rest) yield rest;
+        return;
+      }
+      yield decoder.decode(value, { stream: true });
+    }
+  }
+
+  /**
+   * The proxy answers a request that carries `toolUse` with the next tool step; the tools themselves run in the browser.
+   */
+  const generateToolStep = async (request: AdvisorTurnRequest): Promise<AdvisorToolStep> => {
+    return (await post('/advisor', { ...request, stream: false })).json();
+  };
+
+  const completeText = async (task: TextTask): Promise<string> => {
+    const { text } = await (await post('/complete', { task })).json();
+    return text;
+  };
+
+  return { name: 'proxy', generateTurn, streamTurn, generateToolStep, completeText };
+};
@@ -0,0 +1,141 @@
+import type { Course, ChatMessage, Locale, LearnerProfile, LearnerProfileField } from '../../types';
+
+/**
+ * Represents a single course recommendation from the AI.
+ */
+export interface GeminiRecommendation {
+  courseId: string;
+  reasoning: string;
+}
+
+/**
+ * A learning path proposed by the AI: courses to take one after another toward a goal.
+ */
+export interface GeminiLearningPath {
+  goal: string;
+  /** The courses in the order the AI suggests taking them. */
+  steps: GeminiRecommendation[];
+}
+
+/**
+ * Represents the full, parsed JSON response from the AI for a single turn in the conversation.
+ * Every provider must resolve to this shape, regardless of the model behind it.
+ */
+export interface GeminiResponse {
+  chatResponse: string;
+  recommendations?: GeminiRecommendation[];
+  /** A sequence of courses toward the learner's goal, given instead of or alongside `recommendations`. */
+  learningPath?: GeminiLearningPath;
+  isComplete: boolean;
+  /** Learner details newly stated or changed in the user's latest message. */
+  profileUpdate?: Partial<Record<LearnerProfileField, string>>;
+}
+
+/**
+ * The input for a single conversational turn.
+ */
+export interface AdvisorTurnRequest {
+  chatHistory: ChatMessage[];
+  courses: Course[];
+  locale: Locale;
+  /** What is known about the learner so far, including their own corrections. */
+  profile?: LearnerProfile;
+  /** A summary of the earlier messages that were left out of `chatHistory`. */
+  summary?: string;
+  /**
+   * Set when the model should look courses up with the catalog tools instead of reading `courses` from its prompt.
+   */
+  toolUse?: ToolUse;
+}
+
+/**
+ * A tool call requested by the model.
+ */
+export interface ToolCall {
+  /** The provider's identifier for the call, used to match it to its result. */
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * One round of tool calls within a turn, together with their results.
+ */
+export interface ToolRound {
+  calls: ToolCall[];
+  /** The result of each call, in the same order as `calls`. */
+  results: unknown[];
+}
+
+/**
+ * The tool state of a turn.
+ */
+export interface ToolUse {
+  /** The tool calls made so far in this turn. */
+  rounds: ToolRound[];
+  /** When false, the model must answer without calling further tools. */
+  allowCalls: boolean;
+}
+
+/**
+ * The outcome of one model call in a turn that may use tools: either more tool calls, or the final response.
+ */
+export type AdvisorToolStep =
+  | { kind: 'toolCalls'; calls: ToolCall[] }
+  | { kind: 'response'; response: GeminiResponse };
+
+/**
+ * A free-text task, such as summarizing a conversation or comparing courses for the learner.
+ * The prompt for each kind is rendered by whoever calls the model, so only the inputs travel.
+ */
+export type TextTask = {
+  kind: 'summary';
+  locale: Locale;
+  /** The summary so far, which the new one must extend. */
+  previousSummary?: string;
+  /** The messages to fold into the summary. */
+  messages: ChatMessage[];
+} | {
+  kind: 'comparison';
+  locale: Locale;
+  /** The courses to weigh against each other. */
+  courses: Course[];
+  /** The conversation to judge them against, without the part `summary` covers. */
+  messages: ChatMessage[];
+  /** A summary of the earlier messages that were left out of `messages`. */
+  summary?: string;
+  profile?: LearnerProfile;
+} | {
+  kind: 'title';
+  locale: Locale;
+  /** The latest messages of the conversation to name. */
+  messages: ChatMessage[];
+  profile?: LearnerProfile;
+};
+
+/**
+ * The identifiers of the available LLM backends.
+ */
+export type ProviderName = 'proxy' | 'gemini' | 'openai' | 'mock';
+
+/**
+ * A backend capable of producing the advisor's next turn.
+ * Implementations own the model call and the parsing of its output; prompt construction is shared.
+ */
+export interface AdvisorProvider {
+  name: ProviderName;
+  generateTurn: (request: AdvisorTurnRequest) => Promise<GeminiResponse>;
+  /**
+   * Streams the raw JSON text of the next turn as it is generated.
+   * The concatenated chunks form the same document `generateTurn` would parse.
+   */
+  streamTurn: (request: AdvisorTurnRequest) => AsyncIterable<string>;
+  /**
+   * Runs one step of a turn with the catalog tools available. `request.toolUse` carries the calls made so far.
+   */
+  generateToolStep: (request: AdvisorTurnRequest) => Promise<AdvisorToolStep>;
+  /**
+   * Runs a free-text task and returns the model's plain-text answer.
+   */
+  completeText: (task: TextTask) => Promise<string>;
+}
@@ -0,0 +1,48 @@
+import type { ValidationIssue } from './responseValidation';
+
+const STORAGE_KEY = 'advisorRepairLog';
+const MAX_ENTRIES = 200;
+
+/**
+ * A record of one corrective re-prompt.
+ */
+export interface RepairLogEntry {
+  timestamp: number;
+  /** 1 for the first corrective re-prompt of a turn, 2 for the second, and so on. */
+  attempt: number;
+  issues: ValidationIssue[];
+  /** Whether the re-prompt produced a valid response. */
+  resolved: boolean;
+}
+
+/**
+ * Reads the repair log from localStorage.
+ * @returns The logged repairs, oldest first.
+ */
+export const getRepairLog = (): RepairLogEntry[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Records a corrective re-prompt, keeping only the most recent entries.
+ * @param entry - The repair to record.
+ */
+export const recordRepair = (entry: RepairLogEntry) => {
+  console.warn(`AI response repair attempt ${entry.attempt} (${entry.resolved ? 'resolved' : 'unresolved'}):`, entry.issues);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...getRepairLog(), entry].slice(-MAX_ENTRIES)));
+  } catch (error) {
+    console.error("Failed to save repair log to local storage", error);
+  }
+};
+
+/**
+ * Clears the repair log.
+ */
+export const clearRepairLog = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
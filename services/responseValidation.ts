@@ -0,0 +1,134 @@
+import type { Course } from '../types';
+import type { GeminiRecommendation, GeminiResponse } from './providers';
+import { MIN_PATH_STEPS, MAX_PATH_STEPS } from './learningPath';
+
+/**
+ * The number of recommendations the prompt asks for.
+ */
+export const MIN_RECOMMENDATIONS = 2;
+export const MAX_RECOMMENDATIONS = 3;
+
+/**
+ * A problem found in a model response.
+ */
+export type ValidationIssue =
+  | { kind: 'unknownCourse'; courseId: string }
+  | { kind: 'duplicateCourse'; courseId: string }
+  | { kind: 'recommendationCount'; count: number }
+  | { kind: 'pathLength'; count: number }
+  | { kind: 'completionMismatch'; isComplete: boolean; hasRecommendations: boolean };
+
+/**
+ * Checks a response against the catalog and the rules in the system prompt.
+ * @param response - The parsed model response.
+ * @param courses - The full catalog the IDs must come from.
+ * @param hasPriorRecommendations - Whether recommendations were already given earlier in the conversation.
+ * @returns The problems found; empty when the response is valid.
+ */
+export const validateAdvisorResponse = (
+  response: GeminiResponse,
+  courses: Course[],
+  hasPriorRecommendations: boolean
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const recommendations = response.recommendations ?? [];
+  const pathSteps = response.learningPath?.steps ?? [];
+  const knownIds = new Set(courses.map(course => course.id));
+
+  // The recommendations and the path are separate lists, so a course may appear once in each.
+  [recommendations, pathSteps].forEach(list => {
+    const seenIds = new Set<string>();
+    list.forEach(({ courseId }) => {
+      if (!knownIds.has(courseId)) {
+        issues.push({ kind: 'unknownCourse', courseId });
+      } else if (seenIds.has(courseId)) {
+        issues.push({ kind: 'duplicateCourse', courseId });
+      }
+      seenIds.add(courseId);
+    });
+  });
+
+  if (recommendations.length > 0 && (recommendations.length < MIN_RECOMMENDATIONS || recommendations.length > MAX_RECOMMENDATIONS)) {
+    issues.push({ kind: 'recommendationCount', count: recommendations.length });
+  }
+  if (response.learningPath && (pathSteps.length < MIN_PATH_STEPS || pathSteps.length > MAX_PATH_STEPS)) {
+    issues.push({ kind: 'pathLength', count: pathSteps.length });
+  }
+
+  // A learning path counts as recommending its courses.
+  const hasRecommendations = recommendations.length > 0 || pathSteps.length > 0;
+  // isComplete marks the first set of recommendations, so it must not be set without any,
+  // and a first set must not leave it unset.
+  if ((response.isComplete && !hasRecommendations) || (hasRecommendations && !response.isComplete && !hasPriorRecommendations)) {
+    issues.push({ kind: 'completionMismatch', isComplete: response.isComplete, hasRecommendations });
+  }
+
+  return issues;
+};
+
+/**
+ * Describes the issues as an instruction the model can act on in a corrective turn.
+ * @param issues - The problems found in the previous response.
+ * @returns The corrective message text.
+ */
+export const describeIssuesForModel = (issues: ValidationIssue[]): string => {
+  const lines = issues.map(issue => {
+    switch (issue.kind) {
+      case 'unknownCourse':
+        return `- The courseId "${issue.courseId}" does not exist. Only use courseIds from the provided catalog.`;
+      case 'duplicateCourse':
+        return `- The courseId "${issue.courseId}" is recommended more than once. Each course may appear only once.`;
+      case 'recommendationCount':
+        return `- You recommended ${issue.count} courses. Recommend between ${MIN_RECOMMENDATIONS} and ${MAX_RECOMMENDATIONS} courses.`;
+      case 'pathLength':
+        return `- Your learning path has ${issue.count} steps. A path must have between ${MIN_PATH_STEPS} and ${MAX_PATH_STEPS} steps.`;
+      case 'completionMismatch':
+        return issue.hasRecommendations
+          ? "- 'isComplete' must be true when you give the first set of recommendations or learning path."
+          : "- 'isComplete' must be false when both 'recommendations' and 'learningPath' are empty or missing.";
+    }
+  });
+
+  return [
+    "Your previous JSON response broke the output rules:",
+    ...lines,
+    "Reply again to my last message with a corrected JSON response. Keep the same intent and language, and do not mention this correction.",
+  ].join('\n');
+};
+
+/**
+ * Keeps the first mention of each known course, up to a limit.
+ */
+const keepKnownCourses = (list: GeminiRecommendation[], knownIds: Set<string>, limit: number): GeminiRecommendation[] => {
+  const seenIds = new Set<string>();
+  return list
+    .filter(({ courseId }) => {
+      const keep = knownIds.has(courseId) && !seenIds.has(courseId);
+      seenIds.add(courseId);
+      return keep;
+    })
+    .slice(0, limit);
+};
+
+/**
+ * Makes a response safe to display when repairs did not succeed:
+ * drops unknown and duplicate courses, caps the counts, drops a path too short to be one, and makes `isComplete` consistent.
+ * @param response - The model response.
+ * @param courses - The full catalog.
+ * @returns A response that only references real courses.
+ */
+export const sanitizeAdvisorResponse = (response: GeminiResponse, courses: Course[]): GeminiResponse => {
+  const knownIds = new Set(courses.map(course => course.id));
+  const recommendations = keepKnownCourses(response.recommendations ?? [], knownIds, MAX_RECOMMENDATIONS);
+  const pathSteps = keepKnownCourses(response.learningPath?.steps ?? [], knownIds, MAX_PATH_STEPS);
+  const learningPath = response.learningPath && pathSteps.length >= MIN_PATH_STEPS
+    ? { ...response.learningPath, steps: pathSteps }
+    : undefined;
+
+  return {
+    ...response,
+    recommendations: recommendations.length ? recommendations : undefined,
+    learningPath,
+    isComplete: response.isComplete && (recommendations.length > 0 || !!learningPath),
+  };
+};
@@ -0,0 +1,167 @@
+import type { Course, ChatMessage, RetrievalMatch } from '../types';
+import { getAllCourseTexts } from './localization';
+import { foldText, splitWords } from './text';
+
+/**
+ * BM25 tuning constants. These are the textbook defaults.
+ */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * How many times each field's tokens are counted, so that a title hit outweighs a description hit.
+ */
+const FIELD_WEIGHTS = {
+  title: 3,
+  topics: 2,
+  category: 2,
+  description: 1,
+};
+
+/**
+ * Words too common to say anything about which course fits, in both supported languages.
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'have', 'i', 'im', 'in', 'is', 'it',
+  'like', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'want', 'was', 'with', 'would',
+  'you', 'your', 'yes', 'course', 'courses', 'learn', 'learning',
+  'va', 'la', 'cua', 'co', 'khong', 'em', 'anh', 'chi', 'toi', 'minh', 'muon', 'hoc', 'khoa', 'cho', 'voi', 'nhung',
+  'duoc', 'mot', 'cac', 'de', 'da', 'dang', 'rat', 'oi', 'nhe', 'thi', 've', 'trong',
+]);
+
+/**
+ * Lowercases text, strips Vietnamese diacritics and splits it into searchable tokens.
+ * @param text - The text to tokenize.
+ * @returns The meaningful tokens in the text.
+ */
+export const tokenize = (text: string): string[] =>
+  splitWords(foldText(text)).filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+/**
+ * Builds the weighted bag of tokens for a course.
+ */
+const courseTokens = (course: Course): string[] => {
+  const repeat = (text: string, times: number) => Array.from({ length: times }, () => tokenize(text)).flat();
+  return [
+    ...repeat(getAllCourseTexts(course, 'title').join(' '), FIELD_WEIGHTS.title),
+    ...repeat(course.topics.join(' '), FIELD_WEIGHTS.topics),
+    ...repeat(course.category, FIELD_WEIGHTS.category),
+    ...repeat(getAllCourseTexts(course, 'description').join(' '), FIELD_WEIGHTS.description),
+  ];
+};
+
+/**
+ * Builds the query from what the user has said, counting the latest message twice
+ * so the ranking follows the current direction of the conversation.
+ */
+const queryTokens = (chatHistory: ChatMessage[]): string[] => {
+  const userTexts = chatHistory.filter(message => message.sender === 'user').map(message => message.text || '');
+  const latest = userTexts[userTexts.length - 1] ?? '';
+  return tokenize([...userTexts, latest].join(' '));
+};
+
+/**
+ * Orders courses by cycling through categories, so a filler selection covers the catalog's breadth.
+ */
+const interleaveByCategory = (courses: Course[]): Course[] => {
+  const byCategory = new Map<string, Course[]>();
+  courses.forEach(course => byCategory.set(course.category, [...(byCategory.get(course.category) ?? []), course]));
+  const queues = Array.from(byCategory.values());
+  const result: Course[] = [];
+  while (result.length < courses.length) {
+    queues.forEach(queue => queue.length && result.push(queue.shift()!));
+  }
+  return result;
+};
+
+/**
+ * The outcome of ranking the catalog against the conversation.
+ */
+export interface Shortlist {
+  /** The courses to send to the model, best match first. */
+  courses: Course[];
+  /** Why each shortlisted course was picked, in the same order. */
+  matches: RetrievalMatch[];
+}
+
+/**
+ * A course with its BM25 score for a query.
+ */
+export interface ScoredCourse {
+  course: Course;
+  score: number;
+  matchedTerms: string[];
+}
+
+/**
+ * Scores every course against the query terms with BM25.
+ * @param query - The distinct query terms.
+ * @param courses - The courses to score.
+ * @returns One entry per course, in catalog order.
+ */
+const scoreCourses = (query: string[], courses: Course[]): ScoredCourse[] => {
+  const documents = courses.map(courseTokens);
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, documents.length);
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(doc => new Set(doc).forEach(token => documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1)));
+
+  return courses.map((course, index) => {
+    const doc = documents[index];
+    let score = 0;
+    const matchedTerms: string[] = [];
+
+    query.forEach(term => {
+      const frequency = doc.filter(token => token === term).length;
+      if (!frequency) return;
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (courses.length - df + 0.5) / (df + 0.5));
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * doc.length / averageLength));
+      matchedTerms.push(term);
+    });
+
+    return { course, score, matchedTerms };
+  });
+};
+
+/**
+ * Ranks courses against a free-text query with BM25, keeping only courses that match at all.
+ * @param query - The search text.
+ * @param courses - The courses to search.
+ * @param limit - The maximum number of results.
+ * @returns The matching courses, best match first.
+ */
+export const searchCatalog = (query: string, courses: Course[], limit: number): ScoredCourse[] =>
+  scoreCourses(Array.from(new Set(tokenize(query))), courses)
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+/**
+ * Ranks the catalog against the conversation so far with BM25 and keeps the best `topN` courses.
+ * When fewer than `topN` courses match at all, the rest of the shortlist is filled with a
+ * category-balanced selection, so the model still sees what else is on offer.
+ * @param chatHistory - The conversation so far.
+ * @param courses - The full catalog.
+ * @param topN - The maximum number of courses to keep.
+ * @returns The shortlisted courses and the reasons they were picked.
+ */
+export const shortlistCourses = (chatHistory: ChatMessage[], courses: Course[], topN: number): Shortlist => {
+  const scored = scoreCourses(Array.from(new Set(queryTokens(chatHistory))), courses);
+
+  const matched = scored.filter(entry => entry.score > 0).sort((a, b) => b.score - a.score).slice(0, topN);
+  const matchedIds = new Set(matched.map(entry => entry.course.id));
+  const filler = interleaveByCategory(courses.filter(course => !matchedIds.has(course.id)))
+    .slice(0, topN - matched.length)
+    .map(course => ({ course, score: 0, matchedTerms: [] as string[] }));
+
+  const selected = [...matched, ...filler];
+  return {
+    courses: selected.map(entry => entry.course),
+    matches: selected.map(({ course, score, matchedTerms }) => ({
+      courseId: course.id,
+      score: Math.round(score * 100) / 100,
+      matchedTerms,
+    })),
+  };
+};
@@ -0,0 +1,45 @@
+import { AdvisorError, classifyError } from './advisorErrors';
+
+/**
+ * Settings for `withRetry`.
+ */
+export interface RetryOptions {
+  /** The total number of attempts, including the first. */
+  maxAttempts: number;
+  /** The delay before the first retry; each further retry doubles it. */
+  baseDelayMs: number;
+  /** The longest a single delay may be. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10_000,
+};
+
+/**
+ * Runs an operation, retrying retryable `AdvisorError`s with exponential backoff and jitter.
+ * A provider's own retry-after hint is honoured when it is longer than the computed delay.
+ * @param operation - The operation to run.
+ * @param options - How often and how long to retry.
+ * @returns The operation's result.
+ * @throws {AdvisorError} The classified error of the last attempt.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const advisorError: AdvisorError = classifyError(error);
+      if (!advisorError.retryable || attempt >= options.maxAttempts) {
+        throw advisorError;
+      }
+
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.max(backoff * (0.5 + Math.random() / 2), advisorError.retryAfterMs ?? 0);
+      console.warn(`Advisor request failed (${advisorError.kind}); retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${options.maxAttempts}).`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+};
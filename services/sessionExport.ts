@@ -0,0 +1,317 @@
+import type { ChatMessage, ChatSession, ConversationSummary, Course, CourseDuration, LearnerProfile, LearningPath, MessageTree } from '../types';
+import type { TranslationKey } from '../contexts/LanguageContext';
+import { v4 as uuidv4 } from 'uuid';
+import { LEARNER_PROFILE_FIELDS } from './learnerProfile';
+import { resolveCourseText } from './localization';
+import { getChildren } from './messageTree';
+import { foldText } from './text';
+
+/**
+ * Identifies a JSON export of chat sessions, so other JSON files are not mistaken for one.
+ */
+const EXPORT_FORMAT = 'ninjagpt-chat-sessions';
+
+/**
+ * The version of the JSON export layout. Bump it when the layout changes in a way older versions cannot read.
+ */
+const EXPORT_VERSION = 1;
+
+/**
+ * The language to write human-readable exports in: what `useLanguage` provides.
+ */
+export interface ExportLanguage {
+  locale: string;
+  t: (key: TranslationKey, replacements?: Record<string, string>) => string;
+  formatDuration: (duration: CourseDuration) => string;
+}
+
+/**
+ * A course the advisor recommended, with the reasoning it gave most recently.
+ */
+export interface FinalRecommendation {
+  course: Course;
+  reasoning: string;
+}
+
+/**
+ * Thrown when an import file cannot be used at all: it is not JSON, not a session export, or holds no valid session.
+ */
+export class SessionImportError extends Error {
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'SessionImportError';
+  }
+}
+
+/**
+ * The sessions read from an import file.
+ */
+export interface ParsedSessionImport {
+  sessions: ChatSession[];
+  /** How many records in the file were not valid sessions and were left out. */
+  rejected: number;
+}
+
+/**
+ * What importing sessions did.
+ */
+export interface SessionImportReport {
+  added: number;
+  /** Sessions already in the history, unchanged, which were skipped. */
+  duplicates: number;
+  /** Sessions whose ID belonged to a different conversation in the history, added as copies under new IDs. */
+  reassigned: number;
+  /** Records in the file that were not valid sessions. */
+  rejected: number;
+}
+
+/**
+ * Writes sessions as JSON, losslessly: every session keeps its whole message tree, profile and summary.
+ * @param sessions - The sessions to export.
+ * @returns The JSON text.
+ */
+export const sessionsToJson = (sessions: ChatSession[]): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), sessions }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a value is a recommended course or learning path step: a course record, checked in full when loaded,
+ * with optional reasoning.
+ */
+const isCourseEntry = (value: unknown): boolean =>
+  isRecord(value) && isRecord(value.course) && (value.reasoning === undefined || typeof value.reasoning === 'string');
+
+const isMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value) && (value.sender === 'user' || value.sender === 'ai') && (value.text === undefined || typeof value.text === 'string')
+  && (value.recommendedCourses === undefined || (Array.isArray(value.recommendedCourses) && value.recommendedCourses.every(isCourseEntry)))
+  && (value.learningPath === undefined || (isRecord(value.learningPath) && typeof value.learningPath.goal === 'string'
+    && Array.isArray(value.learningPath.steps) && value.learningPath.steps.every(isCourseEntry)));
+
+const isProfile = (value: unknown): value is LearnerProfile =>
+  isRecord(value)
+  && LEARNER_PROFILE_FIELDS.every(field => value[field] === undefined || typeof value[field] === 'string')
+  && (value.userEditedFields === undefined || (Array.isArray(value.userEditedFields)
+    && value.userEditedFields.every(field => LEARNER_PROFILE_FIELDS.includes(field))));
+
+const isSummary = (value: unknown): value is ConversationSummary =>
+  isRecord(value) && typeof value.text === 'string' && typeof value.coveredMessageCount === 'number' && typeof value.updatedAt === 'number'
+  && (value.lastCoveredId === undefined || typeof value.lastCoveredId === 'string');
+
+/**
+ * Whether walking up the parents from every node ends at a first message, rather than going round in a circle.
+ * Every `parentId` must already be known to exist.
+ */
+const reachesRoot = (nodes: Record<string, { parentId: string | null }>): boolean => {
+  const rooted = new Set<string>();
+  return Object.keys(nodes).every(id => {
+    const path = new Set<string>();
+    for (let current: string | null = id; current !== null && !rooted.has(current); current = nodes[current].parentId) {
+      if (path.has(current)) return false;
+      path.add(current);
+    }
+    path.forEach(visited => rooted.add(visited));
+    return true;
+  });
+};
+
+const isMessageTree = (value: unknown): value is MessageTree => {
+  if (!isRecord(value) || !isRecord(value.nodes)) return false;
+  const nodes = value.nodes;
+  const leafId = value.leafId;
+  return (leafId === null || (typeof leafId === 'string' && leafId in nodes))
+    && Object.values(nodes).every(node => isRecord(node)
+      && isMessage(node.message)
+      && typeof node.createdAt === 'number'
+      && (node.parentId === null || (typeof node.parentId === 'string' && node.parentId in nodes)))
+    && reachesRoot(nodes as Record<string, { parentId: string | null }>);
+};
+
+/**
+ * Checks that a record from an import file is a session the app can load.
+ * Sessions exported before conversations could branch have only `messages`; their tree is built when they are loaded.
+ */
+const toSession = (value: unknown): ChatSession | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id.trim() || typeof value.title !== 'string' || typeof value.timestamp !== 'number') {
+    return null;
+  }
+  if ((value.profile != null && !isProfile(value.profile)) || (value.summary != null && !isSummary(value.summary))) {
+    return null;
+  }
+  const hasTree = isMessageTree(value.messageTree);
+  const hasMessages = Array.isArray(value.messages) && value.messages.every(isMessage);
+  if (!hasTree && !hasMessages) return null;
+  return {
+    ...value,
+    messages: hasMessages ? value.messages : [],
+    messageTree: hasTree ? value.messageTree : undefined,
+    profile: value.profile ?? undefined,
+    summary: value.summary ?? undefined,
+  } as ChatSession;
+};
+
+/**
+ * Reads sessions from an import file: a JSON export, or a bare session or list of sessions.
+ * The sessions still need the migration applied to stored sessions before use.
+ * @param text - The file's text.
+ * @returns The valid sessions and how many records were left out.
+ * @throws {SessionImportError} If the file is not JSON, is an export from a newer version, or has no valid session.
+ */
+export const parseSessionImport = (text: string): ParsedSessionImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new SessionImportError('The file is not valid JSON.', { cause: error });
+  }
+
+  if (isRecord(data) && data.format === EXPORT_FORMAT && typeof data.version === 'number' && data.version > EXPORT_VERSION) {
+    throw new SessionImportError(`The file was exported by a newer version of the app (format version ${data.version}).`);
+  }
+  const records = isRecord(data) && data.format === EXPORT_FORMAT ? data.sessions : data;
+  const list = Array.isArray(records) ? records : [records];
+
+  const sessions = list.map(toSession).filter((session): session is ChatSession => session !== null);
+  if (sessions.length === 0) {
+    throw new SessionImportError('The file has no valid chat sessions.');
+  }
+  return { sessions, rejected: list.length - sessions.length };
+};
+
+/**
+ * Describes a conversation by its title and the messages of every branch, leaving out message IDs and timestamps,
+ * which are made up afresh each time a session saved before conversations could branch is loaded.
+ */
+const describeConversation = (session: ChatSession): string => {
+  const describeReplies = (parentId: string | null): unknown[] =>
+    getChildren(session.messageTree, parentId).map(({ message: { id, ...message } }) => ({ message, replies: describeReplies(id) }));
+  return JSON.stringify([session.title, describeReplies(null)]);
+};
+
+/**
+ * Adds imported sessions to the history. A session already in the history unchanged is skipped;
+ * one whose ID is taken by a different conversation is added as a copy under a new ID, so nothing is overwritten,
+ * unless the same conversation is already in the history under another ID, such as a copy from an earlier import.
+ * @param existing - The sessions in the history.
+ * @param imported - The migrated sessions from the import file.
+ * @returns The updated history, with the imported sessions at the end, and what was done.
+ */
+export const mergeImportedSessions = (
+  existing: ChatSession[],
+  imported: ChatSession[]
+): { sessions: ChatSession[]; report: Omit<SessionImportReport, 'rejected'> } => {
+  const sessions = [...existing];
+  const report = { added: 0, duplicates: 0, reassigned: 0 };
+
+  imported.forEach(session => {
+    if (!sessions.some(candidate => candidate.id === session.id)) {
+      sessions.push(session);
+      report.added++;
+      return;
+    }
+    const content = describeConversation(session);
+    if (sessions.some(candidate => describeConversation(candidate) === content)) {
+      report.duplicates++;
+    } else {
+      sessions.push({ ...session, id: uuidv4() });
+      report.added++;
+      report.reassigned++;
+    }
+  });
+
+  return { sessions, report };
+};
+
+/**
+ * Collects the advisor's recommendations over a conversation: each course once, in the order first recommended,
+ * with the latest reasoning given for it. Failed turns are ignored.
+ * @param messages - The conversation.
+ * @returns The recommended courses.
+ */
+export const getFinalRecommendations = (messages: ChatMessage[]): FinalRecommendation[] => {
+  const byId = new Map<string, FinalRecommendation>();
+  messages
+    .filter(message => !message.error)
+    .forEach(message => message.recommendedCourses?.forEach(({ course, reasoning }) => byId.set(course.id, { course, reasoning })));
+  return Array.from(byId.values());
+};
+
+/**
+ * Finds the latest learning path the advisor proposed in a conversation.
+ * @param messages - The conversation.
+ * @returns The learning path, if there is one.
+ */
+export const getLatestLearningPath = (messages: ChatMessage[]): LearningPath | undefined =>
+  [...messages].reverse().find(message => !message.error && message.learningPath)?.learningPath;
+
+/**
+ * Writes a course as a Markdown list item, with its reasoning indented under it.
+ */
+const courseToMarkdown = (course: Course, reasoning: string | undefined, marker: string, language: ExportLanguage): string => {
+  const { locale, t, formatDuration } = language;
+  const details = [course.provider, t(`level.${course.level}`), formatDuration(course.duration)].join(' · ');
+  const lines = [`${marker} **${resolveCourseText(course, 'title', locale)}** (\`${course.id}\`) — ${details}`];
+  if (reasoning) lines.push(`${' '.repeat(marker.length + 1)}${reasoning}`);
+  return lines.join('\n');
+};
+
+/**
+ * Writes a session as a readable Markdown document: the learner profile, then the selected branch of the conversation
+ * with the courses and learning paths the advisor proposed. Failed turns are left out.
+ * @param session - The session.
+ * @param language - The language to write the headings and course details in.
+ * @returns The Markdown text.
+ */
+export const sessionToMarkdown = (session: ChatSession, language: ExportLanguage): string => {
+  const { locale, t } = language;
+  const sections = [
+    `# ${session.title}`,
+    `_${t('export.lastActive', { date: new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeStyle: 'short' }).format(session.timestamp) })}_`,
+  ];
+
+  const profileLines = LEARNER_PROFILE_FIELDS
+    .filter(field => session.profile?.[field])
+    .map(field => `- **${t(`profile.field.${field}`)}:** ${session.profile![field]}`);
+  if (profileLines.length) sections.push(`## ${t('export.profile')}`, profileLines.join('\n'));
+
+  sections.push(`## ${t('export.conversation')}`);
+  session.messages.filter(message => !message.error).forEach(message => {
+    sections.push(`### ${message.sender === 'user' ? t('export.you') : t('export.advisor')}`);
+    if (message.text) sections.push(message.text.trim());
+    if (message.recommendedCourses?.length) {
+      sections.push(
+        `**${t('export.recommendedCourses')}**`,
+        message.recommendedCourses.map(({ course, reasoning }) => courseToMarkdown(course, reasoning, '-', language)).join('\n'),
+      );
+    }
+    if (message.learningPath) {
+      sections.push(
+        `**${t('learningPath.title')}:** ${message.learningPath.goal}`,
+        message.learningPath.steps.map((step, index) => courseToMarkdown(step.course, step.reasoning, `${index + 1}.`, language)).join('\n'),
+      );
+    }
+  });
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+/**
+ * Writes several sessions as one Markdown document, separated by horizontal rules.
+ * @param sessions - The sessions.
+ * @param language - The language to write the headings and course details in.
+ * @returns The Markdown text.
+ */
+export const sessionsToMarkdown = (sessions: ChatSession[], language: ExportLanguage): string =>
+  sessions.map(session => sessionToMarkdown(session, language)).join('\n---\n\n');
+
+/**
+ * Suggests a file name for an export, from the session title (or `chat-sessions` for a bulk export) and today's date.
+ * @param session - The exported session, or `null` for a bulk export.
+ * @param extension - The file extension, such as `json` or `md`.
+ * @returns The file name, e.g. `marketing-career-switch-2026-10-19.md`.
+ */
+export const exportFileName = (session: ChatSession | null, extension: string): string => {
+  const slug = session ? foldText(session.title).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) : 'chat-sessions';
+  return `${slug || 'conversation'}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
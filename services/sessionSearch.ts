@@ -0,0 +1,172 @@
+import type { ChatMessage, ChatSession } from '../types';
+import { getAllCourseTexts, resolveCourseText } from './localization';
+import { foldText, splitWords } from './text';
+
+/**
+ * What narrows down the sessions listed in the chat history.
+ */
+export interface SessionFilters {
+  /** Words to find in the session title, the messages or the recommended courses. */
+  query: string;
+  /** Only sessions in which the advisor recommended at least one course. */
+  withRecommendations: boolean;
+  /** Only sessions last active on or after this day, as `YYYY-MM-DD`. */
+  from?: string;
+  /** Only sessions last active on or before this day, as `YYYY-MM-DD`. */
+  to?: string;
+}
+
+/**
+ * The filters that let every session through.
+ */
+export const EMPTY_SESSION_FILTERS: SessionFilters = { query: '', withRecommendations: false };
+
+/**
+ * A session that passed the filters.
+ */
+export interface SessionSearchResult {
+  session: ChatSession;
+  /** The folded words that matched a query term, for highlighting. */
+  matchedTerms: string[];
+  /** An excerpt of the message or course title that matched, when the query matched more than the title. */
+  snippet?: string;
+}
+
+/**
+ * The sections the chat history is divided into: pinned sessions first, then by when each session was last active.
+ */
+export const SESSION_DATE_GROUPS = ['pinned', 'today', 'yesterday', 'last7Days', 'last30Days', 'older'] as const;
+
+export type SessionDateGroup = (typeof SESSION_DATE_GROUPS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How many characters of context a snippet keeps before and after the first matched word.
+ */
+const SNIPPET_CONTEXT = { before: 30, after: 70 };
+
+/**
+ * Lists every message of a session, on the selected branch first and then on the branches left behind.
+ */
+const allMessages = (session: ChatSession): ChatMessage[] => {
+  const selected = new Set(session.messages.map(message => message.id));
+  const others = Object.values(session.messageTree.nodes)
+    .filter(node => !selected.has(node.message.id))
+    .map(node => node.message);
+  return [...session.messages, ...others];
+};
+
+/**
+ * Writes a timestamp as a local `YYYY-MM-DD` day, to compare with the date filters.
+ */
+const toLocalDay = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+};
+
+/**
+ * Cuts an excerpt around the first word of a text that is one of the matched words.
+ * @returns The excerpt, or `undefined` if no word of the text matched.
+ */
+const makeSnippet = (text: string, matched: Set<string>): string | undefined => {
+  const plain = text.replace(/[*_`#>|]+/g, '').replace(/\s+/g, ' ').trim();
+  // Splitting on a captured group keeps the words at the odd indices.
+  const parts = plain.split(/([\p{L}\p{M}\p{N}]+)/u);
+  let offset = 0;
+  for (let index = 0; index < parts.length; index++) {
+    if (index % 2 === 1 && matched.has(foldText(parts[index]))) {
+      const start = Math.max(0, offset - SNIPPET_CONTEXT.before);
+      const end = Math.min(plain.length, offset + SNIPPET_CONTEXT.after);
+      let excerpt = plain.slice(start, end);
+      // Drop the words cut in half at either end
+      if (start > 0) excerpt = `…${excerpt.replace(/^\S*\s+/, '')}`;
+      if (end < plain.length) excerpt = `${excerpt.replace(/\s+\S*$/, '')}…`;
+      return excerpt.trim();
+    }
+    offset += parts[index].length;
+  }
+  return undefined;
+};
+
+/**
+ * Finds the sessions that match the filters. Query terms ignore case and diacritics and match the start of a word;
+ * every term must be found somewhere in the session, on any branch, or in the title of a course recommended in it.
+ * @param sessions - The sessions to search.
+ * @param filters - The filters.
+ * @param locale - The interface language, used for the course titles shown in snippets.
+ * @returns The matching sessions, most recently active first.
+ */
+export const searchSessions = (sessions: ChatSession[], filters: SessionFilters, locale: string): SessionSearchResult[] => {
+  const terms = [...new Set(splitWords(foldText(filters.query)))];
+  const results: SessionSearchResult[] = [];
+
+  sessions.forEach(session => {
+    const messages = allMessages(session);
+    const recommended = messages.filter(message => !message.error).flatMap(message => message.recommendedCourses ?? []).map(({ course }) => course);
+    if (filters.withRecommendations && recommended.length === 0) return;
+
+    const day = toLocalDay(session.timestamp);
+    if ((filters.from && day < filters.from) || (filters.to && day > filters.to)) return;
+
+    if (terms.length === 0) {
+      results.push({ session, matchedTerms: [] });
+      return;
+    }
+
+    const sources = [
+      ...messages.map(message => message.text ?? ''),
+      ...recommended.map(course => resolveCourseText(course, 'title', locale)),
+    ];
+    const words = new Set(splitWords(foldText([
+      session.title,
+      ...sources,
+      ...recommended.flatMap(course => [course.id, ...getAllCourseTexts(course, 'title')]),
+    ].join(' '))));
+
+    const matched = new Set<string>();
+    const matchesEveryTerm = terms.every(term => {
+      const found = [...words].filter(word => word.startsWith(term));
+      found.forEach(word => matched.add(word));
+      return found.length > 0;
+    });
+    if (!matchesEveryTerm) return;
+
+    const titleWords = splitWords(foldText(session.title));
+    const titleMatchesAll = terms.every(term => titleWords.some(word => word.startsWith(term)));
+    const snippet = titleMatchesAll ? undefined : sources.map(text => makeSnippet(text, matched)).find(Boolean);
+    results.push({ session, matchedTerms: [...matched], snippet });
+  });
+
+  return results.sort((a, b) => b.session.timestamp - a.session.timestamp);
+};
+
+/**
+ * Works out which section of the chat history a session belongs in.
+ * @param session - The session.
+ * @param now - The current time.
+ * @returns The section.
+ */
+export const getSessionDateGroup = (session: ChatSession, now: number): SessionDateGroup => {
+  if (session.pinned) return 'pinned';
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  if (session.timestamp >= startOfToday) return 'today';
+  if (session.timestamp >= startOfToday - DAY_MS) return 'yesterday';
+  if (session.timestamp >= startOfToday - 6 * DAY_MS) return 'last7Days';
+  if (session.timestamp >= startOfToday - 29 * DAY_MS) return 'last30Days';
+  return 'older';
+};
+
+/**
+ * Divides search results into the sections of the chat history, keeping their order within each section.
+ * @param results - The results, as returned by `searchSessions`.
+ * @param now - The current time.
+ * @returns The non-empty sections, in display order.
+ */
+export const groupSessionResults = (
+  results: SessionSearchResult[],
+  now: number
+): { group: SessionDateGroup; results: SessionSearchResult[] }[] =>
+  SESSION_DATE_GROUPS
+    .map(group => ({ group, results: results.filter(result => getSessionDateGroup(result.session, now) === group) }))
+    .filter(section => section.results.length > 0);
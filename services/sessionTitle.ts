@@ -0,0 +1,95 @@
+import type { ChatMessage, ChatSession, LearnerProfile, Locale } from '../types';
+import { getProvider } from './providers';
+
+/**
+ * How many of the learner's messages make an exchange worth naming the session after.
+ * The first answer is usually just their name.
+ */
+const MIN_USER_MESSAGES = 2;
+
+/**
+ * How many of the latest messages are sent to the model to name the session. The profile covers what came before.
+ */
+const TITLE_CONTEXT_MESSAGES = 8;
+
+/**
+ * The longest title kept; longer ones are cut at a word boundary.
+ */
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * The names sessions were given before titles were generated, which count as default titles.
+ */
+const LEGACY_DEFAULT_TITLE = /^Conversation \d+$/;
+
+/**
+ * Works out where the title of a session saved before titles were tracked came from.
+ * Numbered "Conversation N" titles were given by the app; anything else was typed by the user.
+ * @param session - The saved session.
+ * @returns The title's source.
+ */
+export const inferTitleSource = (session: ChatSession): NonNullable<ChatSession['titleSource']> =>
+  session.titleSource ?? (LEGACY_DEFAULT_TITLE.test(session.title) ? 'default' : 'user');
+
+/**
+ * Decides whether the advisor should (re)name a session after a new reply.
+ * A default title is replaced once the learner has answered a couple of questions or courses were recommended.
+ * A generated title is refined once, when the first recommendations arrive. Titles the user chose are never replaced.
+ * @param session - The session, as it was before the reply.
+ * @param messages - The selected branch, ending with the new reply.
+ * @returns True if a title should be generated.
+ */
+export const isTitleDue = (session: ChatSession, messages: ChatMessage[]): boolean => {
+  const source = inferTitleSource(session);
+  if (source === 'user') return false;
+
+  const answered = messages.filter(message => !message.error);
+  const latest = answered[answered.length - 1];
+  const hasNewRecommendations = latest?.sender === 'ai' && !!latest.recommendedCourses?.length
+    && !answered.slice(0, -1).some(message => message.recommendedCourses?.length);
+
+  if (source === 'ai') return hasNewRecommendations;
+  return hasNewRecommendations || answered.filter(message => message.sender === 'user').length >= MIN_USER_MESSAGES;
+};
+
+/**
+ * Tidies a title written by the model: keeps the first line, drops a `Title:` label, surrounding quotes,
+ * Markdown emphasis and a final full stop, and shortens it to `MAX_TITLE_LENGTH` characters.
+ * @param text - The model's reply.
+ * @returns The title, or an empty string if nothing usable is left.
+ */
+export const cleanTitle = (text: string): string => {
+  let title = (text.trim().split('\n')[0] ?? '')
+    .replace(/^(title|tiêu đề)\s*:\s*/i, '')
+    .replace(/[*_#`]/g, '')
+    .trim()
+    .replace(/^["'“”‘’«»]+/, '')
+    .replace(/["'“”‘’«».。]+$/, '')
+    .trim();
+  if (title.length > MAX_TITLE_LENGTH) {
+    const cut = title.slice(0, MAX_TITLE_LENGTH);
+    title = `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : MAX_TITLE_LENGTH).trim()}…`;
+  }
+  return title;
+};
+
+/**
+ * Asks the advisor for a short title describing what the learner is after, in the interface language.
+ * Naming a session is a nicety, so a failure is logged and yields `null` rather than an error.
+ * @param messages - The selected branch of the session.
+ * @param profile - What is known about the learner.
+ * @param locale - The language to write the title in.
+ * @returns The title, or `null` if none could be generated.
+ */
+export const generateSessionTitle = async (messages: ChatMessage[], profile: LearnerProfile | undefined, locale: Locale): Promise<string | null> => {
+  const recent = messages.filter(message => !message.error).slice(-TITLE_CONTEXT_MESSAGES);
+  if (recent.length === 0) return null;
+
+  try {
+    const title = cleanTitle(await getProvider().completeText({ kind: 'title', locale, messages: recent, profile }));
+    return title || null;
+  } catch (error) {
+    console.error("Failed to generate a session title:", error);
+    return null;
+  }
+};
@@ -0,0 +1,62 @@
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Extracts the value of a top-level string field from an incomplete JSON document.
+ * Used to show the advisor's `chatResponse` while the rest of the JSON is still streaming in.
+ * Escape sequences cut off at the end of the buffer are held back until the next chunk completes them.
+ * @param buffer - The JSON text received so far.
+ * @param field - The name of the string field to extract.
+ * @returns The decoded text received so far, or `null` if the field has not started yet.
+ */
+export const extractPartialStringField = (buffer: string, field: string): string | null => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(buffer);
+  if (!match) {
+    return null;
+  }
+
+  let result = '';
+  let i = match.index + match[0].length;
+
+  while (i < buffer.length) {
+    const char = buffer[i];
+
+    if (char === '"') {
+      break;
+    }
+
+    if (char !== '\\') {
+      result += char;
+      i += 1;
+      continue;
+    }
+
+    const escape = buffer[i + 1];
+    if (escape === undefined) {
+      break;
+    }
+
+    if (escape === 'u') {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+
+    result += SIMPLE_ESCAPES[escape] ?? escape;
+    i += 2;
+  }
+
+  return result;
+};
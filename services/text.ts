@@ -0,0 +1,50 @@
+/**
+ * Folds text for matching: lowercases it and strips diacritics, including the Vietnamese `đ`,
+ * so `Kinh tế` and `kinh te` compare equal.
+ * @param text - The text to fold.
+ * @returns The folded text.
+ */
+export const foldText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .replace(/đ/gi, 'd')
+    .toLowerCase();
+
+/**
+ * Splits text into words: runs of letters and digits.
+ * @param text - The text to split.
+ * @returns The words, in order.
+ */
+export const splitWords = (text: string): string[] => text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Counts the edits (insertions, deletions, substitutions and swaps of neighbouring characters)
+ * that turn one word into another, giving up once the count is known to exceed `maxDistance`.
+ * @param a - The first word.
+ * @param b - The second word.
+ * @param maxDistance - The largest distance worth computing exactly.
+ * @returns The edit distance, or `maxDistance + 1` if it is larger than `maxDistance`.
+ */
+export const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length], maxDistance + 1);
+};
@@ -4,10 +4,29 @@
 export type Theme = 'light' | 'dark';
 
 /**
- * Defines the available languages for the application.
+ * Defines the languages the interface is available in.
+ * Course content is not limited to these; see `Course.translations`.
  */
 export type Locale = 'vi' | 'en';
 
+/**
+ * User-tunable settings for how the advisor builds its prompts.
+ */
+export interface AdvisorSettings {
+  /** How many courses the retrieval step passes to the model each turn. */
+  retrievalTopN: number;
+  /** Whether to show which courses were shortlisted under each AI reply. */
+  showRetrievalDebug: boolean;
+  /** How many of the latest messages are always sent to the model verbatim. */
+  recentMessageCount: number;
+  /** How many unsummarized messages may build up before older ones are folded into the summary. */
+  summaryThreshold: number;
+  /** Whether the advisor looks courses up with catalog tools instead of receiving a shortlist in its prompt. */
+  useCatalogTools: boolean;
+  /** Whether to show the catalog tool calls behind each AI reply. */
+  showToolTrace: boolean;
+}
+
 /**
  * Represents a single course in the catalog.
  */
@@ -17,32 +36,228 @@ export interface Course {
   provider: string;
   description: string;
   longDescription: string;
-  duration: string;
+  duration: CourseDuration;
   level: 'Beginner' | 'Intermediate' | 'Advanced';
   topics: string[];
   category: string;
-  title_vi?: string;
-  description_vi?: string;
-  longDescription_vi?: string;
+  /** What the course costs. An amount of 0 means it is free. */
+  price?: CoursePrice;
+  deliveryMode?: DeliveryMode;
+  /** The language the course is taught in, as an ISO 639-1 code such as `vi` or `en`. */
+  instructionLanguage?: string;
+  /** The start dates of upcoming cohorts, as `YYYY-MM-DD`, earliest first. */
+  startDates?: string[];
+  /** The IDs of courses a learner should complete first. */
+  prerequisites?: string[];
+  /**
+   * Translations of the title and descriptions, keyed by locale code such as `vi` or `pt-BR`.
+   * The fields above are in English; see `services/localization.ts` for how a locale falls back.
+   */
+  translations?: Partial<Record<string, CourseTranslation>>;
+}
+
+/**
+ * The course fields that can be translated.
+ */
+export type LocalizedCourseField = 'title' | 'description' | 'longDescription';
+
+/**
+ * A course's text in one locale. Missing fields fall back along the locale's fallback chain.
+ */
+export type CourseTranslation = Partial<Record<LocalizedCourseField, string>>;
+
+/**
+ * The price of a course.
+ */
+export interface CoursePrice {
+  amount: number;
+  /** An ISO 4217 currency code, such as `VND` or `USD`. */
+  currency: string;
+}
+
+/**
+ * How long a course runs, e.g. 6 weeks at 5 hours a week.
+ */
+export interface CourseDuration {
+  amount: number;
+  unit: DurationUnit;
+  /** The expected study time per week, when the provider states it. */
+  hoursPerWeek?: number;
 }
 
+/**
+ * The units a course duration can be given in.
+ */
+export type DurationUnit = 'day' | 'week' | 'month';
+
+/**
+ * How a course is delivered.
+ */
+export type DeliveryMode = 'online' | 'in-person' | 'hybrid';
+
+/**
+ * The publication state of a course managed on the catalog admin page.
+ * - `draft`: being prepared; hidden from learners and the advisor.
+ * - `published`: live in the catalog.
+ * - `retired`: withdrawn; kept for reference but no longer shown or recommended.
+ */
+export type CourseStatus = 'draft' | 'published' | 'retired';
+
+/**
+ * The categories of failure an advisor turn can end in.
+ * - `quota`: the provider rejected the request for rate or quota reasons.
+ * - `network`: the provider could not be reached or was temporarily unavailable.
+ * - `safety`: the provider blocked the prompt or the response.
+ * - `parse`: the model output was not valid JSON.
+ * - `schema`: the model output was JSON but not a valid advisor response.
+ * - `unknown`: anything else, such as configuration errors.
+ */
+export type AdvisorErrorKind = 'quota' | 'network' | 'safety' | 'parse' | 'schema' | 'unknown';
+
 /**
  * Represents a single message in the chat interface.
  */
 export interface ChatMessage {
+    /** Identifies the message within its session's message tree. Messages built only to be sent to the model have none. */
+    id?: string;
     sender: 'user' | 'ai';
     text?: string;
     recommendedCourses?: { course: Course; reasoning: string }[];
+    /**
+     * Set when the turn failed. Such messages are shown with a retry action and are never sent back to the model.
+     * If a streamed reply broke off, `text` holds what had arrived.
+     */
+    error?: { kind: AdvisorErrorKind };
+    /** The catalog shortlist the model saw for this reply, kept for the retrieval debug view. */
+    shortlist?: RetrievalMatch[];
+    /** The catalog tools the model called while preparing this reply, in call order. */
+    toolTrace?: ToolTraceEntry[];
+    /** An ordered sequence of courses toward the learner's goal, when the advisor proposed one. */
+    learningPath?: LearningPath;
+}
+
+/**
+ * An ordered sequence of courses leading to a goal.
+ */
+export interface LearningPath {
+    /** The goal the path leads to, in the advisor's words. */
+    goal: string;
+    steps: LearningPathStep[];
+    /** The length of the whole path in weeks. */
+    totalWeeks: number;
+    /** The total study time, when every step states its weekly hours. */
+    totalHours?: number;
 }
 
+/**
+ * One course in a learning path.
+ */
+export interface LearningPathStep {
+    course: Course;
+    /** Why the advisor put the course on the path. */
+    reasoning?: string;
+    /** Set when the course was added because a later step requires it, rather than chosen by the advisor. */
+    addedAsPrerequisite?: boolean;
+}
+
+/**
+ * The catalog tools the advisor can call during a turn.
+ */
+export type CatalogToolName = 'searchCourses' | 'getCourseDetails' | 'listCategories' | 'compareCourses';
+
+/**
+ * A record of one catalog tool call, kept so advisors can audit how a reply was reached.
+ */
+export interface ToolTraceEntry {
+    tool: CatalogToolName;
+    args: Record<string, unknown>;
+    /** How many courses or categories the call returned. */
+    resultCount: number;
+}
+
+/**
+ * Explains why the retrieval step shortlisted a course for the model.
+ */
+export interface RetrievalMatch {
+    courseId: string;
+    /** The BM25 score; 0 for courses added only to fill the shortlist. */
+    score: number;
+    /** The query terms found in the course. */
+    matchedTerms: string[];
+}
+
+/**
+ * The learner details the advisor collects during a conversation.
+ */
+export type LearnerProfileField = 'name' | 'age' | 'education' | 'fieldOfStudy' | 'experience' | 'goals';
+
+/**
+ * What the advisor knows about the learner, extracted from the conversation.
+ */
+export type LearnerProfile = Partial<Record<LearnerProfileField, string>> & {
+    /** Fields the user corrected by hand; updates from the model never overwrite these. */
+    userEditedFields?: LearnerProfileField[];
+};
+
 /**
  * Represents a full chat conversation session.
  */
 export interface ChatSession {
     id: string;
     title: string;
+    /**
+     * Who chose the title: `default` for the placeholder a new session gets, `ai` for one the advisor proposed,
+     * `user` for one typed by the user, which is never replaced. Sessions saved before this was tracked have none.
+     */
+    titleSource?: 'default' | 'ai' | 'user';
+    /** When the session was created or, once it has more messages, when the latest one was added. */
     timestamp: number;
+    /** Whether the user pinned the session to the top of the chat history. */
+    pinned?: boolean;
+    /** The selected branch of `messageTree`, from the first message to the latest: what is shown and sent to the advisor. */
     messages: ChatMessage[];
+    /** Every message in the session, including those on branches left behind by edits and regenerated replies. */
+    messageTree: MessageTree;
+    profile?: LearnerProfile;
+    /** The advisor prompt templates the latest turn was generated with, e.g. `advisor@v7/vi+catalog-list@v1/vi`. */
+    promptVersion?: string;
+    /** A running summary of the older messages, sent to the model in their place. */
+    summary?: ConversationSummary;
+}
+
+/**
+ * One message in a session's message tree.
+ */
+export interface MessageNode {
+    message: ChatMessage & { id: string };
+    /** The message this one follows; `null` for the first message of the session. */
+    parentId: string | null;
+    /** When the message was added. Sibling branches are numbered in this order. */
+    createdAt: number;
+    /** The reply last selected among this message's replies, which is where the branch continues. */
+    selectedChildId?: string;
+}
+
+/**
+ * A conversation in which any message can have several alternative replies,
+ * because a user message was edited or an advisor reply regenerated.
+ */
+export interface MessageTree {
+    nodes: Record<string, MessageNode>;
+    /** The last message of the selected branch, or `null` while the tree is empty. */
+    leafId: string | null;
+}
+
+/**
+ * A model-written summary of the start of a conversation.
+ */
+export interface ConversationSummary {
+    text: string;
+    /** How many messages, counted from the start of the session, the summary replaces. */
+    coveredMessageCount: number;
+    /** The last message the summary covers. The summary only applies to branches that contain it. */
+    lastCoveredId?: string;
+    updatedAt: number;
 }
 
 /**
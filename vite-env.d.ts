@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AI_PROVIDER?: 'proxy' | 'gemini' | 'openai' | 'mock';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_GEMINI_MODEL?: string;
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_MODEL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_MOCK_DELAY_MS?: string;
+  readonly VITE_CATALOG_URL?: string;
+  readonly VITE_CATALOG_ADMIN?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
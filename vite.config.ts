@@ -4,6 +4,12 @@ import { defineConfig, loadEnv } from 'vite';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      server: {
+        proxy: {
+          // Forward API calls to the local proxy started with `npm run server`.
+          '/api': env.VITE_DEV_PROXY_TARGET || 'http://localhost:8787',
+        }
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),